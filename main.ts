@@ -1,8 +1,9 @@
-import { Plugin } from 'obsidian';
+import { Plugin, normalizePath } from 'obsidian';
 import { BibliographySettingTab } from './src/ui/settings-tab';
 import { SettingsManager } from './src/managers/settings-manager';
 import { ServiceManager } from './src/managers/service-manager';
 import { CommandRegistry } from './src/managers/command-registry';
+import { ZoteroConnectorManager } from './src/managers/zotero-connector-manager';
 import type { BibliographyPluginSettings } from './src/types/settings';
 
 export default class BibliographyPlugin extends Plugin {
@@ -10,6 +11,7 @@ export default class BibliographyPlugin extends Plugin {
     private settingsManager: SettingsManager;
     private serviceManager: ServiceManager;
     private commandRegistry: CommandRegistry;
+    private zoteroConnectorManager: ZoteroConnectorManager;
 
     // Public accessor for settings
     public settings: BibliographyPluginSettings;
@@ -20,14 +22,18 @@ export default class BibliographyPlugin extends Plugin {
         this.settings = await this.settingsManager.loadSettings();
 
         // Initialize the service manager with loaded settings
-        this.serviceManager = new ServiceManager(this.app, this.settings);
+        const pluginDir = this.manifest.dir || normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}`);
+        this.serviceManager = new ServiceManager(this.app, this.settings, pluginDir);
+        await this.serviceManager.getLookupCache().load();
 
         // Initialize the command registry
         this.commandRegistry = new CommandRegistry(
             this.app,
             this,
             this.settings,
-            this.serviceManager.getNoteCreationService()
+            this.serviceManager.getNoteCreationService(),
+            this.serviceManager.getStatusBarService(),
+            this.serviceManager.getLookupCache()
         );
 
         // Register commands
@@ -35,6 +41,24 @@ export default class BibliographyPlugin extends Plugin {
 
         // Add settings tab
         this.addSettingTab(new BibliographySettingTab(this.app, this));
+
+        // Initialize the Zotero connector (desktop only)
+        this.zoteroConnectorManager = new ZoteroConnectorManager(
+            this.app,
+            this,
+            this.settings,
+            this.serviceManager
+        );
+        await this.zoteroConnectorManager.initialize();
+
+        // Show the connector state and long jobs in the status bar
+        this.serviceManager.getStatusBarService().attach(this, {
+            startServer: () => this.zoteroConnectorManager.setConnectorServerEnabled(true),
+            stopServer: () => this.zoteroConnectorManager.setConnectorServerEnabled(false),
+            openInbox: () => this.zoteroConnectorManager.openInbox(),
+            buildBibliography: () => this.commandRegistry.buildBibliography(),
+            getPendingCount: () => this.zoteroConnectorManager.getPendingCount()
+        });
     }
 
     /**
@@ -46,6 +70,7 @@ export default class BibliographyPlugin extends Plugin {
 
         // Update services with new settings
         this.serviceManager.updateSettings(this.settings);
+        await this.zoteroConnectorManager.updateSettings(this.settings);
     }
 
     /**
@@ -57,6 +82,7 @@ export default class BibliographyPlugin extends Plugin {
 
         // Update services with new settings
         this.serviceManager.updateSettings(this.settings);
+        await this.zoteroConnectorManager.updateSettings(this.settings);
     }
 
     /**
@@ -64,6 +90,7 @@ export default class BibliographyPlugin extends Plugin {
      */
     onunload() {
         // Cleanup services
+        this.zoteroConnectorManager.onUnload();
         this.serviceManager.onUnload();
     }
 }
\ No newline at end of file
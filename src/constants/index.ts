@@ -5,6 +5,27 @@
 // Network and Server Configuration
 export const DEFAULT_ZOTERO_PORT = 23119;
 export const LOCALHOST = '127.0.0.1';
+export const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1'] as const;
+export const PORT_IN_USE_RETRIES = 2; // Retries before giving up on a busy port
+export const PORT_IN_USE_RETRY_DELAY = 500; // 500ms between retries
+export const FREE_PORT_SEARCH_RANGE = 20; // Ports to probe when suggesting an alternative
+
+// Connector Access Control
+export const CONNECTOR_EXTENSION_ORIGIN_PREFIXES = [
+    'chrome-extension://',
+    'moz-extension://',
+    'safari-web-extension://',
+    'safari-extension://',
+    'ms-browser-extension://'
+] as const;
+export const CONNECTOR_TOKEN_HEADER = 'x-biblib-token';
+export const MAX_REQUEST_BODY_SIZE = 20 * 1024 * 1024; // 20MB for JSON and snapshot bodies
+export const DEFAULT_ATTACHMENT_MIME_TYPES = [
+    'application/pdf',
+    'application/epub+zip',
+    'text/html',
+    'application/xhtml+xml'
+] as const;
 
 // Session Management
 export const SESSION_CLEANUP_INTERVAL = 300000; // 5 minutes in milliseconds
@@ -39,8 +60,12 @@ export const HTTP_STATUS = {
     CREATED: 201,
     NO_CONTENT: 204,
     BAD_REQUEST: 400,
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
     NOT_FOUND: 404,
     METHOD_NOT_ALLOWED: 405,
+    PAYLOAD_TOO_LARGE: 413,
+    UNSUPPORTED_MEDIA_TYPE: 415,
     INTERNAL_SERVER_ERROR: 500
 } as const;
 
@@ -55,6 +80,8 @@ export const CONTENT_TYPE = {
 export const ERROR_MESSAGES = {
     ZOTERO_PORT_IN_USE: 'Port is already in use. Is Zotero or another application running?',
     ZOTERO_PORT_ACCESS_DENIED: 'Permission denied for port. Try a port number above 1024.',
+    ZOTERO_PORT_INVALID: 'Connector port must be a number between 1024 and 65535.',
+    ZOTERO_PROXY_PORT_CONFLICT: 'Zotero must listen on a different port than the connector server.',
     BIBLIOGRAPHY_BUILD_FAILED: 'Error building bibliography files. Check console for details.',
     FILE_READ_FAILED: 'Failed to read file content',
     INVALID_CSL_DATA: 'Invalid CSL data format',
@@ -78,7 +105,13 @@ export const SUCCESS_MESSAGES = {
 // API Endpoints
 export const API_ENDPOINTS = {
     CITOID_BASE: 'https://en.wikipedia.org/api/rest_v1/data/citation',
-    CROSSREF_BASE: 'https://api.crossref.org/works'
+    CROSSREF_BASE: 'https://api.crossref.org/works',
+    CROSSREF_JOURNALS_BASE: 'https://api.crossref.org/journals',
+    DATACITE_BASE: 'https://api.datacite.org/dois',
+    NCBI_CITATION_BASE: 'https://api.ncbi.nlm.nih.gov/lit/ctxp/v1',
+    OPEN_LIBRARY_BASE: 'https://openlibrary.org',
+    ARXIV_API_BASE: 'https://export.arxiv.org/api/query',
+    UNPAYWALL_BASE: 'https://api.unpaywall.org/v2'
 } as const;
 
 // Timeouts
@@ -3,9 +3,12 @@ import { BibliographyModal } from '../ui/modals/bibliography-modal';
 import { ChapterModal } from '../ui/modals/chapter-modal';
 import { BulkImportModal } from '../ui/modals/bulk-import-modal';
 import { EditBibliographyModal } from '../ui/modals/edit-bibliography-modal';
+import { LookupCacheModal } from '../ui/modals/lookup-cache-modal';
 import { BibliographyPluginSettings } from '../types/settings';
 import { BibliographyBuilder } from '../services/bibliography-builder';
 import { NoteCreationService } from '../services/note-creation-service';
+import { StatusBarService } from '../services/status-bar-service';
+import { LookupCache } from '../services/lookup-cache';
 import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '../constants';
 
 /**
@@ -16,7 +19,9 @@ export class CommandRegistry {
         private app: App,
         private plugin: Plugin,
         private settings: BibliographyPluginSettings,
-        private noteCreationService: NoteCreationService
+        private noteCreationService: NoteCreationService,
+        private statusBar: StatusBarService,
+        private lookupCache: LookupCache
     ) {}
 
     /**
@@ -36,7 +41,7 @@ export class CommandRegistry {
             id: 'create-literature-note',
             name: 'Create literature note',
             callback: () => {
-                new BibliographyModal(this.app, this.settings, true).open();
+                new BibliographyModal(this.app, this.settings, true, this.lookupCache).open();
             },
         });
 
@@ -64,12 +69,21 @@ export class CommandRegistry {
             },
         });
 
+        // Inspect or clear the lookup cache command
+        this.plugin.addCommand({
+            id: 'manage-lookup-cache',
+            name: 'Inspect or clear lookup cache',
+            callback: () => {
+                new LookupCacheModal(this.app, this.settings, this.lookupCache).open();
+            },
+        });
+
         // Create book chapter entry command
         this.plugin.addCommand({
             id: 'create-chapter-entry',
             name: 'Create book chapter entry',
             callback: () => {
-                new ChapterModal(this.app, this.settings).open();
+                new ChapterModal(this.app, this.settings, undefined, this.lookupCache).open();
             },
         });
 
@@ -105,7 +119,7 @@ export class CommandRegistry {
 
                 if (checking) return true;
 
-                new ChapterModal(this.app, this.settings, activeFile.path).open();
+                new ChapterModal(this.app, this.settings, activeFile.path, this.lookupCache).open();
                 return true;
             },
         });
@@ -119,16 +133,7 @@ export class CommandRegistry {
         this.plugin.addCommand({
             id: 'build-bibliography',
             name: 'Build bibliography',
-            callback: async () => {
-                try {
-                    new Notice(SUCCESS_MESSAGES.BIBLIOGRAPHY_BUILDING);
-                    const builder = new BibliographyBuilder(this.app, this.settings);
-                    await builder.buildBibliography();
-                } catch (error) {
-                    console.error('Error building bibliography:', error);
-                    new Notice(ERROR_MESSAGES.BIBLIOGRAPHY_BUILD_FAILED);
-                }
-            },
+            callback: () => this.buildBibliography(),
         });
 
         // Export BibTeX command
@@ -136,14 +141,34 @@ export class CommandRegistry {
             id: 'export-bibtex',
             name: 'Export bibliography as BibTeX',
             callback: async () => {
+                const job = this.statusBar.startJob('Exporting BibTeX');
                 try {
                     new Notice(SUCCESS_MESSAGES.BIBTEX_EXPORTING);
                     const builder = new BibliographyBuilder(this.app, this.settings);
                     await builder.exportBibTeX();
                 } catch (_error) {
                     // Errors are logged by BibliographyBuilder
+                } finally {
+                    job.finish();
                 }
             },
         });
     }
+
+    /**
+     * Build the bibliography files from all literature notes
+     */
+    public async buildBibliography(): Promise<void> {
+        const job = this.statusBar.startJob('Building bibliography');
+        try {
+            new Notice(SUCCESS_MESSAGES.BIBLIOGRAPHY_BUILDING);
+            const builder = new BibliographyBuilder(this.app, this.settings);
+            await builder.buildBibliography();
+        } catch (error) {
+            console.error('Error building bibliography:', error);
+            new Notice(ERROR_MESSAGES.BIBLIOGRAPHY_BUILD_FAILED);
+        } finally {
+            job.finish();
+        }
+    }
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ import { NoteContentBuilderService } from '../services/note-content-builder-serv
 import { AttachmentManagerService } from '../services/attachment-manager-service';
 import { NoteCreationService } from '../services/note-creation-service';
 import { StatusBarService } from '../services/status-bar-service';
+import { LookupCache } from '../services/lookup-cache';
 
 /**
  * Manages the initialization and access to services used by the bibliography plugin.
@@ -24,10 +25,12 @@ export class ServiceManager {
     private referenceParserService: ReferenceParserService;
     private noteCreationService: NoteCreationService;
     private statusBarService: StatusBarService;
+    private lookupCache: LookupCache;
 
     constructor(
         private app: App,
-        private settings: BibliographyPluginSettings
+        private settings: BibliographyPluginSettings,
+        private pluginDir: string
     ) {
         this.initializeServices();
     }
@@ -37,7 +40,9 @@ export class ServiceManager {
      */
     private initializeServices(): void {
         // Initialize all services that DO NOT depend on Node.js modules first
-        this.citationService = new CitationService(this.settings.citekeyOptions);
+        this.statusBarService = new StatusBarService(this.app);
+        this.lookupCache = new LookupCache(this.app, this.pluginDir);
+        this.citationService = new CitationService(this.settings.citekeyOptions, this.settings, this.lookupCache);
         this.templateVariableBuilder = new TemplateVariableBuilderService();
         this.frontmatterBuilder = new FrontmatterBuilderService(this.templateVariableBuilder);
         this.noteContentBuilder = new NoteContentBuilderService(
@@ -51,9 +56,9 @@ export class ServiceManager {
             this.settings,
             this.referenceParserService,
             this.noteContentBuilder,
-            this.attachmentManager
+            this.attachmentManager,
+            this.statusBarService
         );
-        this.statusBarService = new StatusBarService(this.app);
     }
 
     /**
@@ -61,7 +66,7 @@ export class ServiceManager {
      */
     public updateServices(): void {
         // Recreate services that depend on settings
-        this.citationService = new CitationService(this.settings.citekeyOptions);
+        this.citationService = new CitationService(this.settings.citekeyOptions, this.settings, this.lookupCache);
         this.attachmentManager = new AttachmentManagerService(this.app, this.settings);
         this.referenceParserService = new ReferenceParserService(this.citationService);
         this.noteCreationService = new NoteCreationService(
@@ -69,7 +74,8 @@ export class ServiceManager {
             this.settings,
             this.referenceParserService,
             this.noteContentBuilder,
-            this.attachmentManager
+            this.attachmentManager,
+            this.statusBarService
         );
     }
 
@@ -129,6 +135,13 @@ export class ServiceManager {
         return this.statusBarService;
     }
 
+    /**
+     * Get the lookup cache shared by all identifier lookups
+     */
+    public getLookupCache(): LookupCache {
+        return this.lookupCache;
+    }
+
     /**
      * Set new settings and update dependent services
      */
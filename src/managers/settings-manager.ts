@@ -1,5 +1,5 @@
 import { Plugin } from 'obsidian';
-import { BibliographyPluginSettings, DEFAULT_SETTINGS } from '../types/settings';
+import { BibliographyPluginSettings, DEFAULT_SETTINGS, MetadataProviderSetting } from '../types/settings';
 
 /**
  * Manages the loading, saving, and validation of plugin settings
@@ -88,6 +88,20 @@ export class SettingsManager {
             mergedSettings.customFrontmatterFields = DEFAULT_SETTINGS.customFrontmatterFields;
         }
 
+        // Keep the saved provider order, adding providers introduced since the settings were saved
+        const savedProviders = Array.isArray(loadedData.metadataProviders) ? loadedData.metadataProviders : [];
+        const providers: MetadataProviderSetting[] = savedProviders
+            .filter((saved: any) => DEFAULT_SETTINGS.metadataProviders.some(provider => provider.id === saved?.id))
+            .map((saved: MetadataProviderSetting) => ({ ...saved }));
+        DEFAULT_SETTINGS.metadataProviders.forEach((provider, index) => {
+            if (providers.some(existing => existing.id === provider.id)) return;
+            // New providers go right after the one they follow in the default order
+            const previous = DEFAULT_SETTINGS.metadataProviders[index - 1];
+            const position = previous ? providers.findIndex(existing => existing.id === previous.id) + 1 : 0;
+            providers.splice(position, 0, { ...provider });
+        });
+        mergedSettings.metadataProviders = providers;
+
         // Handle legacy settings migrations
         this.migrateFromLegacySettings(mergedSettings, loadedData);
 
@@ -110,5 +124,17 @@ export class SettingsManager {
         if (loadedData.oldAttachmentFolder && !loadedData.attachmentFolderPath) {
             mergedSettings.attachmentFolderPath = loadedData.oldAttachmentFolder;
         }
+
+        // CrossRef moved ahead of Citoid in the default order, so DOIs are read
+        // from CrossRef directly. Done once, so a deliberate reordering sticks.
+        if (!(loadedData.metadataProvidersVersion >= 1)) {
+            const providers = mergedSettings.metadataProviders;
+            const citoidIndex = providers.findIndex(provider => provider.id === 'citoid');
+            const crossrefIndex = providers.findIndex(provider => provider.id === 'crossref');
+            if (citoidIndex !== -1 && crossrefIndex > citoidIndex) {
+                providers.splice(citoidIndex, 0, ...providers.splice(crossrefIndex, 1));
+            }
+            mergedSettings.metadataProvidersVersion = 1;
+        }
     }
 }
\ No newline at end of file
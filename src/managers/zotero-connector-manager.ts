@@ -0,0 +1,1424 @@
+import { App, Notice, Platform, TFile, debounce, normalizePath } from 'obsidian';
+import type BibliographyPlugin from '../../main';
+import { BibliographyModal } from '../ui/modals/bibliography-modal';
+import { NoteSuggestModal } from '../ui/modals/note-suggest-modal';
+import type { DuplicateAction } from '../ui/modals/duplicate-modal';
+import { ConnectorInboxView, ConnectorInboxActions, VIEW_TYPE_CONNECTOR_INBOX } from '../ui/views/connector-inbox-view';
+import { BibliographyPluginSettings } from '../types/settings';
+import { AttachmentData, AttachmentType } from '../types/citation';
+import { ConnectorAttachmentState, ConnectorInboxEntry, ConnectorJournalSession } from '../types/connector';
+import { ConnectorInboxService } from '../services/connector-inbox-service';
+import { ConnectorSessionJournal } from '../services/connector-session-journal';
+import { BibliographyBuilder } from '../services/bibliography-builder';
+import type { BulkImportResult, CreateNoteInput, WebSnapshot } from '../services/note-creation-service';
+import type { ZoteroCuration } from '../services/citation-service';
+import { ServiceManager } from './service-manager';
+
+// Import the TYPE ONLY for type hints, the actual classes are loaded dynamically
+import type { ConnectorServer as ConnectorServerType } from '../services/connector-server';
+import type { ConnectorTempFolder as ConnectorTempFolderType } from '../services/connector-temp-folder';
+
+// Heading of the note section notes from the popup and Zotero go under, and the rule between them
+const NOTES_HEADING = '## Notes\n\n';
+const NOTE_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Connector settings that require a server restart when changed
+ */
+interface ConnectorServerConfig {
+    enabled: boolean;
+    port: number;
+    host: string;
+}
+
+/**
+ * Item and files delivered by a 'zotero-item-received' event
+ */
+interface ZoteroItemEventDetail {
+    item: any;
+    files: string[];
+    sessionID?: string;
+    uri?: string;
+    targetFolder?: string;
+    tags?: string[];
+    note?: string;
+    attachments?: ConnectorAttachmentState[];
+}
+
+/**
+ * Edits made in the connector popup, sent with 'zotero-session-updated'
+ */
+type ZoteroSessionEdits = Pick<ZoteroItemEventDetail, 'targetFolder' | 'tags' | 'note'>;
+
+/**
+ * A note created from a connector session, with the popup edits it already reflects
+ */
+interface SessionNoteRecord extends ZoteroSessionEdits {
+    path: string;
+    itemId?: string; // Zotero item the note was created from
+}
+
+/**
+ * Tags, child notes and related notes a captured item brings along, per the connector settings
+ */
+interface CaptureCuration extends Pick<ZoteroCuration, 'tags' | 'notes'> {
+    relatedPaths: string[]; // Existing literature notes for the item's Zotero relations
+}
+
+/**
+ * Manages the Zotero Connector functionality including server management,
+ * event handling, and Zotero item processing.
+ */
+export class ZoteroConnectorManager {
+    private connectorServer: ConnectorServerType | null = null;
+
+    // Constructor of the dynamically imported ConnectorServer class (desktop only)
+    private ConnectorServerClass: typeof ConnectorServerType | null = null;
+
+    // Constructor of the dynamically imported ConnectorTempFolder class (desktop only)
+    private ConnectorTempFolderClass: typeof ConnectorTempFolderType | null = null;
+
+    // Connector settings the running server was last synchronised with
+    private serverConfig: ConnectorServerConfig;
+
+    // Track active bibliography modal for Zotero imports
+    private activeZoteroModal: BibliographyModal | null = null;
+
+    // Track item ID being processed to avoid duplicate modals
+    private activeZoteroItemId: string | null = null;
+
+    // Session of the item in the active modal, so popup changes can reach it
+    private activeZoteroSessionId: string | null = null;
+
+    // Temp files loaded into the active modal, deleted once its note is created
+    private activeZoteroTempFiles: string[] = [];
+
+    // Page URL of the item in the active modal, so its snapshot's relative links resolve
+    private activeZoteroUri: string | undefined;
+
+    // Popup edits and Zotero curation of the item in the active modal, combined whenever the popup changes
+    private activeZoteroEdits: ZoteroSessionEdits = {};
+    private activeZoteroCuration: CaptureCuration | null = null;
+
+    // Track processed session item keys (session ID + item ID) to avoid duplicate imports
+    private processedItemKeys: Set<string> = new Set();
+
+    // Track item processing to prevent duplicates from Zotero Connector
+    private processingItem: boolean = false;
+
+    // Items waiting for review while another item's modal is open
+    private pendingItems: ZoteroItemEventDetail[] = [];
+
+    // Serialises vault saves so captures arriving together do not race for the same citekey
+    private vaultSaveQueue: Promise<unknown> = Promise.resolve();
+
+    // Captured items waiting for review in the connector inbox view
+    private inbox: ConnectorInboxService;
+
+    // Connector sessions not yet handed over, kept on disk so interrupted captures can be finished
+    private journal: ConnectorSessionJournal;
+
+    // Sessions left unfinished by the previous run, waiting to be finished or discarded
+    private interruptedSessions: ConnectorJournalSession[] = [];
+
+    // Notes created per connector session, so later popup edits can be applied to them
+    private sessionNotes: Map<string, SessionNoteRecord[]> = new Map();
+
+    // Latest popup edits per session, for notes that were being saved when the edits arrived
+    private sessionEdits: Map<string, ZoteroSessionEdits> = new Map();
+
+    constructor(
+        private app: App,
+        private plugin: BibliographyPlugin,
+        private settings: BibliographyPluginSettings,
+        private serviceManager: ServiceManager
+    ) {
+        this.serverConfig = this.getServerConfig(settings);
+
+        const pluginDir = plugin.manifest.dir || normalizePath(`${app.vault.configDir}/plugins/${plugin.manifest.id}`);
+        this.inbox = new ConnectorInboxService(app, pluginDir);
+        this.journal = new ConnectorSessionJournal(app, pluginDir);
+    }
+
+    /**
+     * Extract the settings that require a server restart when they change
+     */
+    private getServerConfig(settings: BibliographyPluginSettings): ConnectorServerConfig {
+        return {
+            enabled: settings.enableZoteroConnector,
+            port: settings.zoteroConnectorPort,
+            host: settings.zoteroConnectorHost
+        };
+    }
+
+    /**
+     * Initialize the Zotero connector functionality
+     * This should be called during plugin load
+     */
+    public async initialize(): Promise<void> {
+        // Only initialize on desktop
+        if (Platform.isMobile) return;
+
+        try {
+            // Use dynamic import() to load the Node-based modules only on desktop
+            const [{ ConnectorServer }, { ConnectorTempFolder }] = await Promise.all([
+                import('../services/connector-server'),
+                import('../services/connector-temp-folder')
+            ]);
+            this.ConnectorServerClass = ConnectorServer;
+            this.ConnectorTempFolderClass = ConnectorTempFolder;
+        } catch (err) {
+            console.error("Failed to load ConnectorServer module:", err);
+            new Notice("Failed to load Zotero Connector feature. Check console for details.");
+            return;
+        }
+
+        // Register desktop-only event listeners
+        this.registerEventListeners();
+
+        // Register the server lifecycle commands
+        this.registerCommands();
+
+        // Restore pending captures and register the inbox view
+        await this.inbox.load();
+        this.registerInboxView();
+
+        // Offer to finish captures that were interrupted by the last shutdown
+        await this.loadInterruptedSessions();
+
+        // Delete downloads that were never imported and are past the retention period
+        await this.sweepTempFolder();
+
+        // Start connector server if enabled in settings
+        if (this.settings.enableZoteroConnector) {
+            await this.startConnectorServer();
+        }
+    }
+
+    /**
+     * Register event listeners for Zotero connector
+     */
+    private registerEventListeners(): void {
+        // Main handler for Zotero items
+        const boundItemHandler = this.handleZoteroItemReceived.bind(this);
+        document.addEventListener('zotero-item-received', boundItemHandler);
+
+        // Additional handler for late-arriving attachments
+        const boundAttachmentHandler = this.handleAdditionalAttachments.bind(this);
+        document.addEventListener('zotero-additional-attachments', boundAttachmentHandler);
+
+        // Handler for changes made in the connector popup after saving
+        const boundSessionHandler = this.handleSessionUpdated.bind(this);
+        document.addEventListener('zotero-session-updated', boundSessionHandler);
+
+        // Register cleanup using Obsidian's mechanism
+        this.plugin.register(() => {
+            document.removeEventListener('zotero-item-received', boundItemHandler);
+            document.removeEventListener('zotero-additional-attachments', boundAttachmentHandler);
+            document.removeEventListener('zotero-session-updated', boundSessionHandler);
+        });
+    }
+
+    /**
+     * Register the start/stop/restart commands for the connector server
+     */
+    private registerCommands(): void {
+        this.plugin.addCommand({
+            id: 'start-connector-server',
+            name: 'Start connector server',
+            checkCallback: (checking) => {
+                if (this.connectorServer) return false;
+                if (!checking) {
+                    this.setConnectorServerEnabled(true);
+                }
+                return true;
+            },
+        });
+
+        this.plugin.addCommand({
+            id: 'stop-connector-server',
+            name: 'Stop connector server',
+            checkCallback: (checking) => {
+                if (!this.connectorServer) return false;
+                if (!checking) {
+                    this.setConnectorServerEnabled(false);
+                }
+                return true;
+            },
+        });
+
+        this.plugin.addCommand({
+            id: 'restart-connector-server',
+            name: 'Restart connector server',
+            callback: async () => {
+                await this.restartConnectorServer();
+                await this.persistEnabledState();
+            },
+        });
+
+        this.plugin.addCommand({
+            id: 'clean-connector-temp-folder',
+            name: 'Clean connector temp folder',
+            callback: () => this.cleanTempFolder(),
+        });
+
+        this.plugin.addCommand({
+            id: 'finish-interrupted-captures',
+            name: 'Finish interrupted connector captures',
+            checkCallback: (checking) => {
+                if (this.interruptedSessions.length === 0) return false;
+                if (!checking) {
+                    this.finishInterruptedSessions();
+                }
+                return true;
+            },
+        });
+
+        this.plugin.addCommand({
+            id: 'discard-interrupted-captures',
+            name: 'Discard interrupted connector captures',
+            checkCallback: (checking) => {
+                if (this.interruptedSessions.length === 0) return false;
+                if (!checking) {
+                    this.discardInterruptedSessions();
+                }
+                return true;
+            },
+        });
+    }
+
+    /**
+     * Read the session journal left by the previous run. Attachments that were
+     * still downloading are marked as failed and their partial files deleted;
+     * finished downloads are kept so the captures can be completed.
+     */
+    private async loadInterruptedSessions(): Promise<void> {
+        const sessions = await this.journal.load();
+        if (sessions.length === 0) return;
+
+        // Node's fs is only available on desktop, where the connector runs
+        const fs = require('fs');
+        for (const session of sessions) {
+            this.deleteTempFiles(session.partialFiles || []);
+            session.partialFiles = [];
+
+            for (const capture of session.captures) {
+                for (const attachment of capture.attachments) {
+                    if (attachment.progress === 100 && attachment.localPath && !fs.existsSync(attachment.localPath)) {
+                        attachment.progress = -1;
+                        attachment.error = 'Downloaded file is missing';
+                    } else if (attachment.progress !== 100 && attachment.progress !== -1) {
+                        attachment.progress = -1;
+                        attachment.error = 'Download was interrupted when Obsidian closed';
+                    }
+                }
+            }
+            await this.journal.record(session);
+        }
+        this.interruptedSessions = sessions;
+
+        const count = sessions.reduce((total, session) => total + session.captures.length, 0);
+        const notice = new Notice(
+            `${count} Zotero capture(s) were interrupted when Obsidian closed. Click to finish them, or use "Discard interrupted connector captures" to drop them.`,
+            0
+        );
+        notice.noticeEl.addEventListener('click', () => {
+            notice.hide();
+            this.finishInterruptedSessions();
+        });
+    }
+
+    /**
+     * Hand the items of interrupted sessions over as if they had just arrived,
+     * using the current save mode
+     */
+    public async finishInterruptedSessions(): Promise<void> {
+        const sessions = this.interruptedSessions;
+        this.interruptedSessions = [];
+
+        for (const session of sessions) {
+            for (const capture of session.captures) {
+                const files = capture.attachments
+                    .filter(attachment => attachment.progress === 100 && attachment.localPath)
+                    .map(attachment => attachment.localPath!);
+
+                this.receiveCapture({
+                    item: capture.item,
+                    files: files,
+                    sessionID: session.sessionID,
+                    uri: session.uri,
+                    targetFolder: session.targetFolder,
+                    tags: session.tags,
+                    note: session.note,
+                    attachments: capture.attachments
+                });
+            }
+            // The journal keeps each item until it is saved or discarded again
+        }
+    }
+
+    /**
+     * Remove an item from the session journal once it no longer needs recovering
+     */
+    private async settleCapture(sessionID: string | undefined, itemId: string): Promise<void> {
+        if (sessionID) await this.journal.removeCapture(sessionID, itemId);
+    }
+
+    /**
+     * Drop interrupted sessions and delete their downloaded files
+     */
+    public async discardInterruptedSessions(): Promise<void> {
+        const sessions = this.interruptedSessions;
+        this.interruptedSessions = [];
+
+        for (const session of sessions) {
+            for (const capture of session.captures) {
+                this.deleteTempFiles(capture.attachments
+                    .filter(attachment => attachment.localPath)
+                    .map(attachment => attachment.localPath!));
+            }
+            await this.journal.remove(session.sessionID);
+        }
+        new Notice(`Discarded ${sessions.length} interrupted Zotero session(s).`);
+    }
+
+    /**
+     * Delete unused temp files older than the retention setting
+     */
+    private async sweepTempFolder(): Promise<void> {
+        const days = this.settings.zoteroConnectorTempRetentionDays;
+        if (!this.ConnectorTempFolderClass || !(days > 0)) return;
+
+        try {
+            await new this.ConnectorTempFolderClass(this.settings).clean({
+                olderThan: days * 24 * 60 * 60 * 1000,
+                keep: this.getTempFilesInUse()
+            });
+        } catch (error) {
+            console.error('Error cleaning connector temp folder:', error);
+        }
+    }
+
+    /**
+     * After confirming, delete every temp file that is not in use and report the space freed
+     */
+    public async cleanTempFolder(): Promise<void> {
+        if (!this.ConnectorTempFolderClass) return;
+
+        const tempFolder = new this.ConnectorTempFolderClass(this.settings);
+        if (!confirm(`Delete every download in ${tempFolder.getPath()} that is not waiting in the inbox or still being received?`)) {
+            return;
+        }
+        try {
+            const result = await tempFolder.clean({ keep: this.getTempFilesInUse() });
+            const freed = (result.freedBytes / (1024 * 1024)).toFixed(1);
+            new Notice(result.deletedFiles > 0
+                ? `Deleted ${result.deletedFiles} file(s) from the connector temp folder, freeing ${freed} MB.`
+                : 'The connector temp folder has no unused files.');
+        } catch (error) {
+            console.error('Error cleaning connector temp folder:', error);
+            new Notice(`Could not clean ${tempFolder.getPath()}. Check console for details.`);
+        }
+    }
+
+    /**
+     * Temp files still needed by the inbox, queued or interrupted captures, the
+     * open modal or sessions the server is receiving
+     */
+    private getTempFilesInUse(): string[] {
+        const files: string[] = [...this.activeZoteroTempFiles];
+        for (const entry of this.inbox.getEntries()) {
+            files.push(...entry.files);
+        }
+        for (const pending of this.pendingItems) {
+            files.push(...pending.files);
+        }
+        for (const session of this.interruptedSessions) {
+            for (const capture of session.captures) {
+                capture.attachments.forEach(attachment => {
+                    if (attachment.localPath) files.push(attachment.localPath);
+                });
+            }
+        }
+        if (this.connectorServer) {
+            files.push(...this.connectorServer.getSessionFiles());
+        }
+        return files;
+    }
+
+    /**
+     * Delete temp files once their contents have been imported or discarded
+     */
+    private deleteTempFiles(files: string[]): void {
+        // Node's fs is only available on desktop, where the connector runs
+        if (!this.ConnectorTempFolderClass) return;
+        new this.ConnectorTempFolderClass(this.settings).deleteFiles(files);
+    }
+
+    /**
+     * Register the connector inbox view and the command that opens it
+     */
+    private registerInboxView(): void {
+        const actions: ConnectorInboxActions = {
+            createNote: (entry) => this.createNoteFromInbox(entry),
+            editThenCreate: (entry) => this.editInboxEntry(entry),
+            mergeIntoNote: (entry) => {
+                new NoteSuggestModal(this.app, (file) => this.mergeInboxEntry(entry, file)).open();
+            },
+            discard: (entry) => this.discardInboxEntry(entry),
+        };
+
+        this.plugin.registerView(
+            VIEW_TYPE_CONNECTOR_INBOX,
+            (leaf) => new ConnectorInboxView(leaf, this.inbox, actions)
+        );
+
+        this.plugin.addCommand({
+            id: 'open-connector-inbox',
+            name: 'Open connector inbox',
+            callback: () => this.openInbox(),
+        });
+    }
+
+    /**
+     * Reveal the connector inbox view, opening it in the right sidebar if needed
+     */
+    public async openInbox(): Promise<void> {
+        const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_CONNECTOR_INBOX)[0];
+        if (existing) {
+            this.app.workspace.revealLeaf(existing);
+            return;
+        }
+
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (!leaf) return;
+        await leaf.setViewState({ type: VIEW_TYPE_CONNECTOR_INBOX, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Start or stop the server at the user's request and remember the choice
+     */
+    public async setConnectorServerEnabled(enabled: boolean): Promise<void> {
+        if (enabled) {
+            await this.startConnectorServer();
+        } else {
+            await this.stopConnectorServer();
+        }
+        await this.persistEnabledState();
+    }
+
+    /**
+     * Number of captures waiting for review, queued for the modal or in the inbox
+     */
+    public getPendingCount(): number {
+        return this.pendingItems.length + this.inbox.getEntries().length;
+    }
+
+    /**
+     * Store whether the server is running as the enable setting, so the
+     * choice made through a command survives a restart of Obsidian
+     */
+    private async persistEnabledState(): Promise<void> {
+        const running = this.isServerRunning();
+        if (this.settings.enableZoteroConnector === running) return;
+
+        this.settings.enableZoteroConnector = running;
+        this.serverConfig.enabled = running;
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Start the Zotero Connector server. Only runs on desktop.
+     */
+    public async startConnectorServer(): Promise<void> {
+        if (Platform.isMobile) return;
+
+        if (this.connectorServer) {
+            return;
+        }
+
+        if (!this.ConnectorServerClass) {
+            console.error("ConnectorServer class is not loaded. Cannot start.");
+            new Notice("Internal error: Failed to initialize Zotero Connector.");
+            return;
+        }
+
+        const server = new this.ConnectorServerClass(this.app, this.settings, {
+            importReferences: (content, format, sourceName) => this.importReferences(content, format, sourceName),
+            getItem: (citekey) => this.getLibraryItem(citekey),
+            searchItems: (query, limit) => new BibliographyBuilder(this.app, this.settings).searchLiteratureNotes(query, limit),
+            exportBibTeX: () => this.exportLibraryBibTeX(),
+        }, this.journal);
+        try {
+            await server.start();
+            this.connectorServer = server;
+            this.serviceManager.getStatusBarService().setConnectorServer(server);
+        } catch (error) {
+            // ConnectorServer.start() already shows a notice describing the failure
+            console.error('Failed to start connector server:', error);
+            this.connectorServer = null;
+            this.serviceManager.getStatusBarService().setConnectorServer(null);
+        }
+    }
+
+    /**
+     * Import a citation file posted to the connector, using the bulk import settings
+     */
+    private async importReferences(content: string, format: 'bib' | 'ris' | 'json', sourceName: string): Promise<BulkImportResult> {
+        return this.serviceManager.getNoteCreationService().bulkImportFromString(content, format, sourceName, {
+            attachmentHandling: this.settings.bulkImportAttachmentHandling,
+            annoteToBody: this.settings.bulkImportAnnoteToBody,
+            citekeyPreference: this.settings.bulkImportCitekeyPreference,
+            conflictResolution: this.settings.bulkImportConflictResolution,
+        });
+    }
+
+    /**
+     * CSL-JSON of the literature note with a citekey, as written to the bibliography JSON
+     */
+    private async getLibraryItem(citekey: string): Promise<any | null> {
+        const builder = new BibliographyBuilder(this.app, this.settings);
+        const note = await builder.findLiteratureNote(citekey);
+        return note ? { ...builder.toCslItem(note), obsidianPath: note.file.path } : null;
+    }
+
+    /**
+     * BibTeX for all literature notes, without writing the export file
+     */
+    private async exportLibraryBibTeX(): Promise<string> {
+        const builder = new BibliographyBuilder(this.app, this.settings);
+        const literatureNotes = await builder.findLiteratureNotes();
+        return literatureNotes.length > 0 ? builder.generateBibTeX(literatureNotes) : '';
+    }
+
+    /**
+     * Stop the Zotero Connector server.
+     */
+    public async stopConnectorServer(): Promise<void> {
+        if (!this.connectorServer) return;
+
+        const server = this.connectorServer;
+        this.connectorServer = null;
+        this.serviceManager.getStatusBarService().setConnectorServer(null);
+        try {
+            await server.stop();
+        } catch (error) {
+            console.error("Error stopping connector server:", error);
+        }
+    }
+
+    /**
+     * Stop the server if it is running, then start it again
+     */
+    public async restartConnectorServer(): Promise<void> {
+        await this.stopConnectorServer();
+        await this.startConnectorServer();
+    }
+
+    /**
+     * Update settings and bring the server in line with the connector settings.
+     * The server is started or stopped when the enable toggle changes and
+     * restarted when the port or bind address changes while it is enabled.
+     */
+    public async updateSettings(settings: BibliographyPluginSettings): Promise<void> {
+        this.settings = settings;
+
+        if (Platform.isMobile || !this.ConnectorServerClass) return;
+
+        const previous = this.serverConfig;
+        const next = this.getServerConfig(settings);
+        this.serverConfig = next;
+
+        if (!next.enabled) {
+            if (previous.enabled) await this.stopConnectorServer();
+        } else if (!previous.enabled) {
+            await this.startConnectorServer();
+        } else if (previous.port !== next.port || previous.host !== next.host) {
+            await this.restartConnectorServer();
+        }
+    }
+
+    /**
+     * Handle the custom 'zotero-item-received' event dispatched by the ConnectorServer.
+     * The server sends one event per item in a session; items arriving while a
+     * modal is open are queued and reviewed one after another.
+     */
+    private handleZoteroItemReceived(event: CustomEvent): void {
+        if (!event.detail?.item) {
+            new Notice('Invalid Zotero item received');
+            console.error('Invalid Zotero item data in event detail:', event.detail);
+            return;
+        }
+
+        this.receiveCapture(event.detail);
+    }
+
+    /**
+     * Route a captured item according to the save mode
+     */
+    private receiveCapture(detail: ZoteroItemEventDetail): void {
+        const { item, files, sessionID } = detail;
+
+        const itemId = item.id || 'unknown';
+        const itemKey = `${sessionID || ''}:${itemId}`;
+
+        // Check if we've already processed this item of this session
+        if (this.processedItemKeys.has(itemKey)) {
+            return;
+        }
+
+        // Save straight to the vault without a modal when configured
+        if (this.settings.zoteroConnectorSaveMode === 'vault') {
+            this.markItemProcessed(itemKey);
+            const capture: ZoteroItemEventDetail = { ...detail, files: files || [] };
+            this.vaultSaveQueue = this.vaultSaveQueue.then(async () => {
+                await this.saveZoteroItemToVault(capture);
+                await this.settleCapture(sessionID, itemId);
+            });
+            return;
+        }
+
+        // Or park it in the inbox for later review
+        if (this.settings.zoteroConnectorSaveMode === 'inbox') {
+            this.markItemProcessed(itemKey);
+            this.addToInbox(itemKey, detail).then(() => this.settleCapture(sessionID, itemId));
+            return;
+        }
+
+        // Check if we're already processing an item
+        if (this.processingItem) {
+            // If we're already processing this exact item (by ID), just add the new attachments
+            if (this.activeZoteroItemId === itemId && this.activeZoteroModal) {
+                this.processZoteroAttachments(files, this.activeZoteroModal);
+                return;
+            }
+
+            const queued = this.findPendingItem(itemId, sessionID);
+            if (queued) {
+                queued.files.push(...(files || []).filter((file: string) => !queued.files.includes(file)));
+                return;
+            }
+
+            this.pendingItems.push({ ...detail, files: [...(files || [])] });
+            new Notice(`Queued "${item.title || 'Untitled'}" from Zotero (${this.pendingItems.length} waiting).`);
+            return;
+        }
+
+        this.openZoteroItem({ ...detail, files: files || [] });
+    }
+
+    /**
+     * Open the bibliography modal for a Zotero item, pre-filled with its data and attachments
+     */
+    private openZoteroItem(detail: ZoteroItemEventDetail, onNoteCreated?: (path: string) => void): void {
+        const { item, files, sessionID } = detail;
+        const itemId = item.id || 'unknown';
+
+        // Not currently processing, so start processing this item
+        this.processingItem = true;
+        this.activeZoteroItemId = itemId;
+        this.activeZoteroSessionId = sessionID || null;
+        this.activeZoteroUri = detail.uri;
+
+        // Add this item to the processed set
+        this.markItemProcessed(`${sessionID || ''}:${itemId}`);
+
+        // Files loaded into this modal, including ones that arrive while it is open
+        const tempFiles: string[] = [];
+        this.activeZoteroTempFiles = tempFiles;
+
+        try {
+            // Parse the Zotero item using the dedicated service method
+            const { cslData, pdfUrl } = this.parseCapturedItem(item, files);
+
+            if (!cslData) {
+                // parseZoteroItem should throw on failure, but double-check
+                throw new Error('Failed to parse Zotero data.');
+            }
+
+            // Open bibliography modal with pre-filled data
+            // Set openedViaCommand to false since this is opened via Zotero
+            const modal = new BibliographyModal(this.app, this.settings, false, this.serviceManager.getLookupCache());
+
+            // Store reference to the modal for potential future attachments
+            this.activeZoteroModal = modal;
+            const curation = this.getCaptureCuration(item, sessionID);
+            this.activeZoteroCuration = curation;
+            this.activeZoteroEdits = { targetFolder: detail.targetFolder, tags: detail.tags, note: detail.note };
+            this.applyEditsToModal(modal, this.activeZoteroEdits, curation);
+            modal.onNoteCreated = (path) => {
+                this.recordSessionNote(sessionID, path, {
+                    targetFolder: modal.targetFolder,
+                    tags: this.activeZoteroEdits.tags,
+                    note: this.activeZoteroEdits.note
+                }, itemId);
+                this.deleteTempFiles(tempFiles);
+                if (onNoteCreated) onNoteCreated(path);
+            };
+
+            // Reset processing state once the modal is closed, keeping the modal's own cleanup
+            const originalOnClose = modal.onClose.bind(modal);
+            modal.onClose = () => {
+                originalOnClose();
+                // The note was created or the item discarded, so it need not be recovered
+                this.settleCapture(sessionID, itemId);
+                this.resetZoteroProcessing();
+            };
+
+            modal.open();
+
+            // Use debounce to allow the modal DOM to render before populating
+            const populateModal = debounce(() => {
+                try {
+                    modal.populateFormFromCitoid(cslData);
+                    modal.addRelatedNotes(curation.relatedPaths);
+                    this.processZoteroAttachments(files, modal);
+                    if (pdfUrl) modal.offerPdfAttachment(pdfUrl);
+                    const remaining = this.pendingItems.length;
+                    new Notice(remaining > 0
+                        ? `Zotero data loaded (${remaining} more item(s) waiting)`
+                        : 'Zotero data loaded');
+                } catch (modalError) {
+                    console.error("Error populating modal:", modalError);
+                    new Notice("Error displaying Zotero data in modal.");
+                    modal.close();
+                }
+            }, 150);
+
+            populateModal();
+        } catch (error) {
+            console.error('Error processing Zotero item:', error);
+            new Notice('Error processing Zotero item. Check console for details.');
+            this.resetZoteroProcessing();
+        }
+    }
+
+    /**
+     * Remember that an item was handled so repeated events for it are ignored
+     */
+    private markItemProcessed(itemKey: string): void {
+        this.processedItemKeys.add(itemKey);
+
+        // Keep the set from growing too large by pruning old entries
+        // after 10 minutes or when it exceeds 50 entries
+        window.setTimeout(() => {
+            this.processedItemKeys.delete(itemKey);
+        }, 10 * 60 * 1000);
+
+        if (this.processedItemKeys.size > 50) {
+            // Remove the oldest entries (first ones added)
+            const iterator = this.processedItemKeys.values();
+            for (let i = 0; i < 10; i++) {
+                const toDelete = iterator.next().value;
+                if (toDelete) this.processedItemKeys.delete(toDelete);
+            }
+        }
+    }
+
+    /**
+     * Create a literature note for a Zotero item without opening a modal.
+     * Existing notes for the citekey or the same reference are handled by the
+     * connector conflict setting.
+     * @returns Whether a note was created or updated
+     */
+    private async saveZoteroItemToVault(detail: ZoteroItemEventDetail): Promise<boolean> {
+        const { item, files, targetFolder } = detail;
+        const title = item.title || 'Untitled';
+
+        try {
+            const { cslData } = this.parseCapturedItem(item, files);
+            if (!cslData) {
+                throw new Error('Failed to parse Zotero data.');
+            }
+
+            const noteCreationService = this.serviceManager.getNoteCreationService();
+            const conflictResolution = this.settings.zoteroConnectorConflictResolution;
+
+            let citekey: string = cslData.id;
+            let input = noteCreationService.buildNoteInputFromCsl(cslData, citekey);
+            let existingNote = noteCreationService.getExistingLiteratureNote(citekey, input.citation, targetFolder);
+
+            if (existingNote && conflictResolution === 'skip') {
+                this.showNoteNotice(`Skipped "${title}": note already exists.`, existingNote);
+                return false;
+            }
+
+            // Other notes for the same reference follow the same setting, as there is nobody to ask:
+            // skip the capture, update the matching note, or create another note with a new citekey
+            const duplicates = this.settings.checkForDuplicates
+                ? noteCreationService.findDuplicateLiteratureNotes(input)
+                    .filter(match => match.file.path !== existingNote?.path)
+                : [];
+            let duplicateAction: DuplicateAction | null = null;
+            let duplicateNote: TFile | null = null;
+            if (duplicates.length > 0) {
+                duplicateNote = duplicates[0].file;
+                if (conflictResolution === 'skip') {
+                    this.showNoteNotice(`Skipped "${title}": a note for it already exists.`, duplicateNote);
+                    return false;
+                }
+                duplicateAction = conflictResolution === 'overwrite' ? 'update' : 'create';
+            }
+
+            if ((existingNote && conflictResolution === 'suffix') || duplicateAction === 'create') {
+                // Append a, b, c... to the citekey until it is free
+                const uniqueCitekey = noteCreationService.getUniqueCitekey(cslData.id, input.citation, targetFolder);
+                if (!uniqueCitekey) {
+                    throw new Error(`No free citekey suffix for ${cslData.id}.`);
+                }
+                citekey = uniqueCitekey;
+                input = noteCreationService.buildNoteInputFromCsl(cslData, citekey);
+            }
+
+            // Zotero tags and tags typed in the connector popup
+            const curation = this.getCaptureCuration(item, detail.sessionID);
+            const tags = [...curation.tags, ...(detail.tags || [])];
+            if (tags.length > 0) {
+                input.citation.tags = [...new Set([...(input.citation.tags || []), ...tags])];
+            }
+
+            const attachmentData: AttachmentData[] = [];
+            for (const filePath of files) {
+                const attachment = this.readTempAttachment(filePath);
+                if (attachment) attachmentData.push(attachment);
+            }
+
+            const noteInput: CreateNoteInput = {
+                ...input,
+                attachmentData,
+                relatedNotePaths: curation.relatedPaths.length > 0 ? curation.relatedPaths : undefined,
+                annotationContent: this.combineNotes(detail.note, curation.notes),
+                targetFolder,
+                overwriteExisting: conflictResolution === 'overwrite',
+                silent: true,
+                webSnapshot: this.readWebSnapshot(files, detail.uri)
+            };
+            const result = duplicateAction === 'update' && duplicateNote
+                ? await noteCreationService.updateLiteratureNote(duplicateNote, noteInput)
+                : await noteCreationService.createLiteratureNote(noteInput);
+
+            if (!result.success || !result.path) {
+                throw result.error || new Error('Unknown error creating note');
+            }
+
+            this.recordSessionNote(detail.sessionID, result.path, {
+                targetFolder,
+                tags: detail.tags,
+                note: detail.note
+            }, item.id);
+            this.deleteTempFiles(files);
+
+            const note = this.app.vault.getAbstractFileByPath(result.path);
+            this.showNoteNotice(duplicateAction === 'update'
+                ? `Updated ${result.path} with "${title}".`
+                : `Saved "${title}" to ${result.path}.`, note instanceof TFile ? note : null);
+            return true;
+        } catch (error) {
+            console.error('Error saving Zotero item to vault:', error);
+            new Notice(`Error saving "${title}" from Zotero. Check console for details.`);
+            return false;
+        }
+    }
+
+    /**
+     * Add a captured item to the connector inbox
+     */
+    private async addToInbox(itemKey: string, detail: ZoteroItemEventDetail): Promise<void> {
+        await this.inbox.add({
+            id: itemKey,
+            sessionID: detail.sessionID,
+            item: detail.item,
+            files: [...(detail.files || [])],
+            attachments: detail.attachments || [],
+            uri: detail.uri || detail.item.url || '',
+            targetFolder: detail.targetFolder,
+            tags: detail.tags,
+            note: detail.note,
+            receivedAt: Date.now()
+        });
+        new Notice(`Added "${detail.item.title || 'Untitled'}" to the connector inbox.`);
+    }
+
+    private async createNoteFromInbox(entry: ConnectorInboxEntry): Promise<void> {
+        const detail: ZoteroItemEventDetail = {
+            item: entry.item,
+            files: entry.files,
+            sessionID: entry.sessionID,
+            targetFolder: entry.targetFolder,
+            tags: entry.tags,
+            note: entry.note,
+            uri: entry.uri
+        };
+        const saving = this.vaultSaveQueue.then(() => this.saveZoteroItemToVault(detail));
+        this.vaultSaveQueue = saving;
+
+        if (await saving) {
+            await this.inbox.remove(entry.id);
+        }
+    }
+
+    private editInboxEntry(entry: ConnectorInboxEntry): void {
+        if (this.processingItem) {
+            new Notice('Finish the open literature note before editing another item.');
+            return;
+        }
+
+        this.openZoteroItem(
+            {
+                item: entry.item,
+                files: entry.files,
+                sessionID: entry.sessionID,
+                targetFolder: entry.targetFolder,
+                tags: entry.tags,
+                note: entry.note,
+                uri: entry.uri
+            },
+            () => { this.inbox.remove(entry.id); }
+        );
+    }
+
+    /**
+     * Fill in fields the existing note is missing from the captured item and
+     * add its attachments to the note
+     */
+    private async mergeInboxEntry(entry: ConnectorInboxEntry, file: TFile): Promise<void> {
+        try {
+            const { cslData } = this.parseCapturedItem(entry.item, entry.files);
+            if (!cslData) {
+                throw new Error('Failed to parse Zotero data.');
+            }
+
+            const noteCreationService = this.serviceManager.getNoteCreationService();
+            const input = noteCreationService.buildNoteInputFromCsl(cslData, cslData.id);
+
+            // Zotero tags and tags typed in the connector popup
+            const curation = this.getCaptureCuration(entry.item, entry.sessionID);
+            const tags = [...curation.tags, ...(entry.tags || [])];
+            if (tags.length > 0) {
+                input.citation.tags = [...new Set([...(input.citation.tags || []), ...tags])];
+            }
+
+            const attachmentData: AttachmentData[] = [];
+            for (const filePath of entry.files) {
+                const attachment = this.readTempAttachment(filePath);
+                if (attachment) attachmentData.push(attachment);
+            }
+
+            const result = await noteCreationService.updateLiteratureNote(file, {
+                ...input,
+                attachmentData,
+                relatedNotePaths: curation.relatedPaths.length > 0 ? curation.relatedPaths : undefined,
+                targetFolder: entry.targetFolder,
+                silent: true
+            });
+            if (!result.success) {
+                throw result.error || new Error('Unknown error updating note');
+            }
+
+            await this.inbox.remove(entry.id);
+            this.deleteTempFiles(entry.files);
+            this.showNoteNotice(`Merged "${entry.item.title || 'Untitled'}" into ${file.path}.`, file);
+        } catch (error) {
+            console.error('Error merging Zotero item into note:', error);
+            new Notice('Error merging Zotero item into note. Check console for details.');
+        }
+    }
+
+    /**
+     * Drop an inbox entry and the temp files downloaded for it
+     */
+    private async discardInboxEntry(entry: ConnectorInboxEntry): Promise<void> {
+        await this.inbox.remove(entry.id);
+        this.deleteTempFiles(entry.files);
+    }
+
+    /**
+     * Show a notice that opens the given note when clicked
+     */
+    private showNoteNotice(message: string, note: TFile | null): void {
+        const notice = new Notice(note ? `${message} Click to open.` : message);
+        if (!note) return;
+
+        notice.noticeEl.addEventListener('click', () => {
+            this.app.workspace.getLeaf(false).openFile(note);
+        });
+    }
+
+    /**
+     * Find a queued item by its item ID and session
+     */
+    private findPendingItem(itemId: string, sessionID?: string): ZoteroItemEventDetail | undefined {
+        return this.pendingItems.find(pending =>
+            (pending.item.id || 'unknown') === itemId && pending.sessionID === sessionID);
+    }
+
+    /**
+     * Process Zotero attachment files and add them to the modal
+     */
+    private processZoteroAttachments(files: string[], modal: BibliographyModal): void {
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return;
+        }
+
+        let attachmentsAdded = 0;
+
+        // Track already processed attachments to prevent duplicates
+        const processedFiles = new Set<string>();
+        for (const existing of modal.getAttachmentData()) {
+            if (existing.filename) {
+                processedFiles.add(existing.filename);
+            } else if (existing.file) {
+                processedFiles.add(existing.file.name);
+            } else if (existing.path) {
+                const fileName = existing.path.split(/[/\\]/).pop() || '';
+                if (fileName) processedFiles.add(fileName);
+            }
+        }
+
+        for (const filePath of files) {
+            try {
+                const attachmentData = this.readTempAttachment(filePath);
+                if (!attachmentData || processedFiles.has(attachmentData.filename || '')) {
+                    continue;
+                }
+                modal.setAttachmentData(attachmentData);
+                processedFiles.add(attachmentData.filename || '');
+                if (!modal.webSnapshot) {
+                    modal.webSnapshot = this.readWebSnapshot([filePath], modal === this.activeZoteroModal ? this.activeZoteroUri : undefined);
+                }
+                if (modal === this.activeZoteroModal) this.activeZoteroTempFiles.push(filePath);
+                attachmentsAdded++;
+            } catch (fileError) {
+                console.error(`Error processing attachment file ${filePath}:`, fileError);
+                new Notice(`Error processing Zotero attachment: ${filePath.split(/[/\\]/).pop()}`);
+            }
+        }
+
+        if (attachmentsAdded > 0) {
+            new Notice(`${attachmentsAdded} attachment(s) added to Zotero item`);
+        }
+    }
+
+    /**
+     * Map a captured item to CSL. Pages saved without a Zotero translator arrive as
+     * bare web pages, so their snapshot is read for the metadata embedded in it.
+     */
+    private parseCapturedItem(item: any, files: string[]): { cslData: any, pdfUrl?: string } {
+        const citationService = this.serviceManager.getCitationService();
+        const cslData = citationService.parseZoteroItem(item);
+        if (!cslData || item.itemType !== 'webpage') return { cslData };
+
+        const html = this.readSnapshotHtml(files);
+        const page = html ? citationService.parseWebPage(html, item.url) : null;
+        if (!page) return { cslData };
+
+        return { cslData: citationService.mergePageMetadata(cslData, page), pdfUrl: page.pdfUrl };
+    }
+
+    /**
+     * Read the first HTML page snapshot among the downloaded files, for
+     * conversion to Markdown. Returns undefined when conversion is turned off.
+     */
+    private readWebSnapshot(files: string[], url?: string): WebSnapshot | undefined {
+        if (this.settings.zoteroConnectorSnapshotMarkdown === 'off') return undefined;
+
+        const html = this.readSnapshotHtml(files);
+        return html === undefined ? undefined : { html, url };
+    }
+
+    /**
+     * Read the first HTML page snapshot among the downloaded files
+     */
+    private readSnapshotHtml(files: string[]): string | undefined {
+        const snapshotPath = files.find(file => /\.html?$/i.test(file));
+        if (!snapshotPath) return undefined;
+
+        try {
+            const fs = require('fs');
+            return fs.readFileSync(snapshotPath, 'utf-8');
+        } catch (error) {
+            console.error(`Error reading snapshot ${snapshotPath}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Read a file the connector server downloaded to its temp folder into an
+     * importable attachment. Returns null when the file no longer exists.
+     */
+    private readTempAttachment(filePath: string): AttachmentData | null {
+        // Node's fs is only available on desktop, where the connector runs
+        const fs = require('fs');
+        if (!fs.existsSync(filePath)) return null;
+
+        const fileName = filePath.split(/[/\\]/).pop() || 'document.pdf';
+        const fileData = fs.readFileSync(filePath);
+
+        // Determine MIME type based on extension
+        let mimeType = 'application/octet-stream';
+        const ext = fileName.toLowerCase().split('.').pop();
+        if (ext === 'pdf') mimeType = 'application/pdf';
+        else if (ext === 'html' || ext === 'htm') mimeType = 'text/html';
+        else if (ext === 'epub') mimeType = 'application/epub+zip';
+
+        return {
+            type: AttachmentType.IMPORT,
+            file: new File([fileData], fileName, { type: mimeType }),
+            filename: fileName
+        };
+    }
+
+    /**
+     * Handle additional attachments event that arrives after the initial item event
+     * This is specifically for slow-loading attachments like PDFs
+     */
+    private handleAdditionalAttachments(event: CustomEvent): void {
+        const { itemId, files, sessionID } = event.detail;
+
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return;
+        }
+
+        // Add the new attachments to the modal that is showing this item
+        if (this.activeZoteroItemId === itemId && this.activeZoteroModal) {
+            this.processZoteroAttachments(files, this.activeZoteroModal);
+            return;
+        }
+
+        // Or keep them with the item if it is still waiting in the queue or the inbox
+        const queued = this.findPendingItem(itemId, sessionID);
+        if (queued) {
+            queued.files.push(...files.filter((file: string) => !queued.files.includes(file)));
+            return;
+        }
+
+        const inboxId = `${sessionID || ''}:${itemId}`;
+        if (this.inbox.getEntry(inboxId)) {
+            this.inbox.addFiles(inboxId, files);
+        }
+    }
+
+    /**
+     * Handle changes made in the connector popup after the items were sent:
+     * update items that are still open, queued or waiting in the inbox, and
+     * notes that were already created from the session
+     */
+    private handleSessionUpdated(event: CustomEvent): void {
+        const { sessionID } = event.detail;
+        if (!sessionID) return;
+
+        const edits: ZoteroSessionEdits = {
+            targetFolder: event.detail.targetFolder,
+            tags: event.detail.tags,
+            note: event.detail.note
+        };
+
+        if (this.activeZoteroModal && this.activeZoteroSessionId === sessionID) {
+            this.activeZoteroEdits = edits;
+            this.applyEditsToModal(this.activeZoteroModal, edits, this.activeZoteroCuration);
+        }
+
+        this.pendingItems
+            .filter(pending => pending.sessionID === sessionID)
+            .forEach(pending => Object.assign(pending, edits));
+
+        this.inbox.updateSession(sessionID, edits);
+
+        this.sessionEdits.set(sessionID, edits);
+        this.applyEditsToSessionNotes(sessionID, edits);
+    }
+
+    /**
+     * Remember a note created from a connector session for half an hour,
+     * long enough for the user to finish editing the connector popup
+     */
+    private recordSessionNote(sessionID: string | undefined, path: string, edits: ZoteroSessionEdits, itemId?: string): void {
+        if (!sessionID) return;
+
+        const records = this.sessionNotes.get(sessionID) || [];
+        records.push({ path, itemId, ...edits });
+        this.sessionNotes.set(sessionID, records);
+
+        window.setTimeout(() => {
+            this.sessionNotes.delete(sessionID);
+            this.sessionEdits.delete(sessionID);
+        }, 30 * 60 * 1000);
+
+        // Catch up with edits that arrived while the note was being created
+        const latestEdits = this.sessionEdits.get(sessionID);
+        if (latestEdits) {
+            this.applyEditsToSessionNotes(sessionID, latestEdits);
+        }
+    }
+
+    /**
+     * Bring notes already created from a session in line with the popup edits:
+     * add new tags, replace or append the note text, and move the note to the chosen folder
+     */
+    private async applyEditsToSessionNotes(sessionID: string, edits: ZoteroSessionEdits): Promise<void> {
+        const records = this.sessionNotes.get(sessionID);
+        if (!records) return;
+
+        for (const record of records) {
+            const file = this.app.vault.getAbstractFileByPath(record.path);
+            if (!(file instanceof TFile)) continue;
+
+            try {
+                // Note text goes into the body, replacing the text of an earlier edit
+                if (edits.note !== record.note) {
+                    const content = await this.app.vault.read(file);
+                    const notesStart = this.findNotesSection(content);
+                    let updated = content;
+                    if (record.note && notesStart !== -1 && content.startsWith(record.note, notesStart)) {
+                        // The popup note is the first thing in the section, as written on creation
+                        let noteEnd = notesStart + record.note.length;
+                        if (!edits.note && content.startsWith(NOTE_SEPARATOR, noteEnd)) noteEnd += NOTE_SEPARATOR.length;
+                        updated = content.slice(0, notesStart) + (edits.note || '') + content.slice(noteEnd);
+                    } else if (edits.note && notesStart !== -1) {
+                        // Put the popup note ahead of the Zotero child notes, as on creation
+                        updated = content.slice(0, notesStart) + edits.note + NOTE_SEPARATOR + content.slice(notesStart);
+                    } else if (edits.note) {
+                        updated = `${content.replace(/\s*$/, '')}\n\n${NOTES_HEADING}${edits.note}\n`;
+                    }
+                    if (updated !== content) await this.app.vault.modify(file, updated);
+                    record.note = edits.note;
+                }
+
+                // Tags are added to the frontmatter; tags removed in the popup are left alone
+                const newTags = (edits.tags || []).filter(tag => !(record.tags || []).includes(tag));
+                if (newTags.length > 0) {
+                    await this.app.fileManager.processFrontMatter(file, (fm) => {
+                        const existing: string[] = Array.isArray(fm.tags) ? fm.tags : (fm.tags ? [fm.tags] : []);
+                        fm.tags = [...new Set([...existing, ...newTags])];
+                    });
+                    record.tags = edits.tags;
+                }
+
+                // The target chooses the folder
+                if (edits.targetFolder !== record.targetFolder) {
+                    const folder = normalizePath(edits.targetFolder || this.settings.literatureNotePath);
+                    const newPath = normalizePath(folder === '/' ? file.name : `${folder}/${file.name}`);
+                    if (newPath !== file.path && !this.app.vault.getAbstractFileByPath(newPath)) {
+                        if (folder !== '/' && !this.app.vault.getAbstractFileByPath(folder)) {
+                            await this.app.vault.createFolder(folder);
+                        }
+                        await this.app.fileManager.renameFile(file, newPath);
+                        record.path = newPath;
+                    }
+                    record.targetFolder = edits.targetFolder;
+                }
+            } catch (error) {
+                console.error(`Error applying connector popup changes to ${record.path}:`, error);
+                new Notice(`Could not apply Zotero popup changes to ${record.path}. Check console for details.`);
+            }
+        }
+    }
+
+    /**
+     * Read the tags, child notes and relations of a Zotero item and find the
+     * literature notes its relations point to
+     */
+    private getCaptureCuration(item: any, sessionID?: string): CaptureCuration {
+        const curation = this.serviceManager.getCitationService().parseZoteroCuration(item, {
+            prefix: this.settings.zoteroConnectorTagPrefix || '',
+            normalization: this.settings.zoteroConnectorTagNormalization,
+            includeAutomatic: this.settings.zoteroConnectorIncludeAutomaticTags
+        });
+
+        return {
+            tags: this.settings.zoteroConnectorImportTags ? curation.tags : [],
+            notes: this.settings.zoteroConnectorImportNotes ? curation.notes : [],
+            relatedPaths: this.resolveRelatedNotes(curation.relations, sessionID)
+        };
+    }
+
+    /**
+     * Find the notes for related Zotero items: items of the same session that
+     * already have a note, or literature notes whose DOI or URL matches the relation
+     */
+    private resolveRelatedNotes(relations: string[], sessionID?: string): string[] {
+        const records = sessionID ? this.sessionNotes.get(sessionID) || [] : [];
+        const noteCreationService = this.serviceManager.getNoteCreationService();
+
+        const paths: string[] = [];
+        for (const relation of relations) {
+            const record = records.find(record =>
+                record.itemId && (relation === record.itemId || relation.endsWith(`/items/${record.itemId}`)));
+            const path = record?.path || noteCreationService.findLiteratureNoteByReference(relation)?.path;
+            if (path && !paths.includes(path)) paths.push(path);
+        }
+        return paths;
+    }
+
+    /**
+     * Note text for the note body: the popup note first, then the Zotero child notes
+     */
+    private combineNotes(popupNote: string | undefined, childNotes: string[]): string | undefined {
+        const parts = [popupNote, ...childNotes].filter((part): part is string => !!part && !!part.trim());
+        return parts.length > 0 ? parts.join(NOTE_SEPARATOR) : undefined;
+    }
+
+    /**
+     * Position just after the "Notes" heading the plugin writes into the note body,
+     * skipping the frontmatter, or -1 when the note has no such section
+     */
+    private findNotesSection(content: string): number {
+        const bodyStart = content.match(/^---\n[\s\S]*?\n---\n*/)?.[0].length ?? 0;
+        const headingIndex = content.indexOf(NOTES_HEADING, bodyStart);
+        return headingIndex === -1 ? -1 : headingIndex + NOTES_HEADING.length;
+    }
+
+    /**
+     * Set the modal's folder, tags and note text from the popup edits and the item's curation
+     */
+    private applyEditsToModal(modal: BibliographyModal, edits: ZoteroSessionEdits, curation: CaptureCuration | null): void {
+        modal.targetFolder = edits.targetFolder;
+        modal.additionalTags = [...new Set([...(curation?.tags || []), ...(edits.tags || [])])];
+        modal.annotationContent = this.combineNotes(edits.note, curation?.notes || []);
+    }
+
+    /**
+     * Reset all Zotero processing state and move on to the next queued item
+     */
+    private resetZoteroProcessing(): void {
+        // Use a small timeout to ensure any queued operations complete
+        window.setTimeout(() => {
+            this.processingItem = false;
+            this.activeZoteroItemId = null;
+            this.activeZoteroSessionId = null;
+            this.activeZoteroModal = null;
+            this.activeZoteroTempFiles = [];
+            this.activeZoteroUri = undefined;
+            this.activeZoteroEdits = {};
+            this.activeZoteroCuration = null;
+
+            const next = this.pendingItems.shift();
+            if (next) {
+                this.openZoteroItem(next);
+            }
+        }, 100);
+    }
+
+    /**
+     * Get the connector server instance
+     */
+    public getConnectorServer(): ConnectorServerType | null {
+        return this.connectorServer;
+    }
+
+    /**
+     * Check if the connector server is running
+     */
+    public isServerRunning(): boolean {
+        return this.connectorServer !== null;
+    }
+
+    /**
+     * Clean up resources when the plugin is unloaded
+     */
+    public onUnload(): void {
+        this.pendingItems = [];
+        this.stopConnectorServer();
+    }
+}
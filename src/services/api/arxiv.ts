@@ -0,0 +1,97 @@
+import { requestUrl } from 'obsidian';
+import { API_ENDPOINTS } from '../../constants';
+import { MetadataProvider, parseName, withTimeout } from './metadata-provider';
+import { IdentifierKind, ParsedIdentifier } from '../../utils/identifiers';
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const ARXIV_NS = 'http://arxiv.org/schemas/atom';
+
+/**
+ * arXiv's own Atom API. Unlike a BibTeX round trip this keeps the version, the
+ * primary category, the authors' comments and the DOI of the published version.
+ */
+export class ArxivProvider implements MetadataProvider {
+    readonly id = 'arxiv';
+    readonly name = 'arXiv';
+    readonly kinds: readonly IdentifierKind[] = ['arxiv'];
+
+    async lookup({ value }: ParsedIdentifier): Promise<any | null> {
+        const url = `${API_ENDPOINTS.ARXIV_API_BASE}?id_list=${encodeURIComponent(value)}&max_results=1`;
+        const response = await withTimeout(requestUrl({
+            url,
+            method: 'GET',
+            headers: { 'Accept': 'application/atom+xml' },
+            throw: false
+        }), url);
+        if (response.status === 404) return null;
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`HTTP ${response.status} from arXiv`);
+        }
+
+        const doc = new DOMParser().parseFromString(response.text, 'application/xml');
+        const entry = doc.getElementsByTagNameNS(ATOM_NS, 'entry')[0];
+        return entry ? this.toCsl(entry) : null;
+    }
+
+    private toCsl(entry: Element): any | null {
+        // Unknown or malformed IDs come back as an entry whose id points at the API's error page
+        const entryId = this.text(entry, ATOM_NS, 'id');
+        const idMatch = /arxiv\.org\/abs\/(.+?)(v\d+)?$/.exec(entryId);
+        if (!idMatch) return null;
+        const [, arxivId, version] = idMatch;
+
+        const categories = Array.from(entry.getElementsByTagNameNS(ATOM_NS, 'category'))
+            .map(category => category.getAttribute('term') || '')
+            .filter(Boolean);
+        const primaryCategory = entry.getElementsByTagNameNS(ARXIV_NS, 'primary_category')[0]?.getAttribute('term') || categories[0];
+        const pdfLink = Array.from(entry.getElementsByTagNameNS(ATOM_NS, 'link'))
+            .find(link => link.getAttribute('title') === 'pdf')?.getAttribute('href');
+
+        const csl: Record<string, any> = {
+            type: 'article',
+            title: this.text(entry, ATOM_NS, 'title'),
+            author: Array.from(entry.getElementsByTagNameNS(ATOM_NS, 'author')).map(author => {
+                const name: Record<string, any> = parseName(this.text(author, ATOM_NS, 'name'));
+                const affiliations = Array.from(author.getElementsByTagNameNS(ARXIV_NS, 'affiliation'))
+                    .map(affiliation => (affiliation.textContent || '').trim())
+                    .filter(Boolean);
+                if (affiliations.length > 0) name.affiliation = affiliations;
+                return name;
+            }),
+            abstract: this.text(entry, ATOM_NS, 'summary'),
+            // <updated> is the date of this version, <published> that of the first
+            issued: this.parseDate(this.text(entry, ATOM_NS, 'updated')),
+            submitted: this.parseDate(this.text(entry, ATOM_NS, 'published')),
+            publisher: 'arXiv',
+            archive: 'arXiv',
+            number: arxivId,
+            version,
+            'primary-category': primaryCategory,
+            keyword: categories.length > 0 ? categories.join(', ') : undefined,
+            note: this.text(entry, ARXIV_NS, 'comment') || undefined,
+            DOI: `10.48550/arXiv.${arxivId}`,
+            'journal-doi': this.text(entry, ARXIV_NS, 'doi') || undefined,
+            URL: `https://arxiv.org/abs/${arxivId}${version || ''}`,
+            'pdf-url': pdfLink ? pdfLink.replace(/^http:/, 'https:') : undefined
+        };
+
+        for (const key of Object.keys(csl)) {
+            if (csl[key] === undefined || csl[key] === '') delete csl[key];
+        }
+        return csl;
+    }
+
+    /**
+     * Text of the first child element, with line breaks and runs of spaces collapsed
+     */
+    private text(parent: Element, namespace: string, localName: string): string {
+        const element = Array.from(parent.getElementsByTagNameNS(namespace, localName))
+            .find(candidate => candidate.parentNode === parent);
+        return (element?.textContent || '').replace(/\s+/g, ' ').trim();
+    }
+
+    private parseDate(timestamp: string): { 'date-parts': number[][] } | undefined {
+        const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(timestamp);
+        return match ? { 'date-parts': [[Number(match[1]), Number(match[2]), Number(match[3])]] } : undefined;
+    }
+}
@@ -1,72 +1,161 @@
-import { requestUrl, Notice } from 'obsidian';
-// CitoidService only provides BibTeX fetching; JSON metadata via Citation.js
-import Cite from 'citation-js';
-import '@citation-js/plugin-isbn';
-import '@citation-js/plugin-doi';
-import '@citation-js/plugin-pubmed';
-import '@citation-js/plugin-wikidata';
+import { requestUrl } from 'obsidian';
+import { BibliographyPluginSettings, MetadataProviderId } from '../../types/settings';
+import { API_ENDPOINTS } from '../../constants';
+import { MetadataProvider, bibtexToCsl, withTimeout } from './metadata-provider';
+import { IDENTIFIER_KIND_LABELS, IdentifierKind, ParsedIdentifier, detectIdentifier } from '../../utils/identifiers';
+import { TranslationServerProvider } from './translation-server';
+import { ArxivProvider } from './arxiv';
+import { CrossRefProvider } from './crossref';
+import { DataCiteProvider } from './datacite';
+import { PubMedProvider } from './pubmed';
+import { OpenLibraryProvider } from './open-library';
+import { LookupCache } from '../lookup-cache';
 
-import '@citation-js/plugin-bibtex';
+/**
+ * Metadata found for an identifier, with the provider that found it
+ */
+export interface MetadataLookupResult {
+    csl: any;
+    provider: MetadataProviderId;
+    cachedAt?: number; // Time of the original lookup, when the result came from the lookup cache
+}
+
+/**
+ * Options for a single lookup
+ */
+export interface MetadataLookupOptions {
+    bypassCache?: boolean; // Ask the providers even if the result is cached
+}
+
+/**
+ * Wikipedia's public Citoid API, which runs Zotero translators for URLs and identifiers
+ */
+export class CitoidProvider implements MetadataProvider {
+    readonly id = 'citoid';
+    readonly name = 'Wikipedia Citoid';
+    readonly kinds: readonly IdentifierKind[] = ['doi', 'isbn', 'pmid', 'pmcid', 'arxiv', 'qid', 'handle', 'url'];
 
+    async lookup({ kind, value }: ParsedIdentifier): Promise<any | null> {
+        const query = kind === 'arxiv' ? `https://arxiv.org/abs/${value}`
+            : kind === 'handle' ? `https://hdl.handle.net/${value}`
+            : value;
+        const url = `${API_ENDPOINTS.CITOID_BASE}/bibtex/${encodeURIComponent(query)}`;
+
+        const response = await withTimeout(requestUrl({
+            url,
+            method: 'GET',
+            headers: {
+                'Accept': 'application/x-bibtex',
+                'User-Agent': 'Obsidian-BibLib'
+            },
+            throw: false
+        }), url);
+        if (response.status === 404) return null;
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`HTTP ${response.status} from Citoid`);
+        }
+
+        return bibtexToCsl(response.text);
+    }
+}
+
+/**
+ * Looks up identifiers through the metadata providers enabled in the settings,
+ * in their configured order. Providers that do not handle the identifier's kind
+ * are skipped; the first provider with a record of it wins.
+ */
 export class CitoidService {
-    private apiUrl: string = 'https://en.wikipedia.org/api/rest_v1/data/citation/bibtex/';
+    private providers: MetadataProvider[];
+    private cache?: LookupCache;
+    private cacheTtlDays: number;
 
-    constructor() {
-        // Fixed BibTeX endpoint; no CrossRef fallback
+    /**
+     * @param cache Lookup cache to read and fill, unless caching is turned off in the settings
+     */
+    constructor(settings?: BibliographyPluginSettings, cache?: LookupCache) {
+        this.cache = settings?.lookupCacheEnabled === false ? undefined : cache;
+        this.cacheTtlDays = settings?.lookupCacheTtlDays ?? 30;
+
+        const configured = settings?.metadataProviders
+            || (['arxiv', 'crossref', 'citoid', 'datacite', 'pubmed', 'openlibrary'] as MetadataProviderId[]).map(id => ({ id, enabled: true }));
+
+        this.providers = configured
+            .filter(provider => provider.enabled)
+            .map(provider => this.createProvider(provider.id, settings))
+            .filter((provider): provider is MetadataProvider => provider !== null);
     }
 
     /**
-     * Fetch BibTeX from Citoid API using DOI or URL.
-     * @param identifier URL, DOI, or ISBN
-     * @returns Promise resolving to BibTeX string
+     * The enabled providers, in the order they are asked
      */
-    async fetchBibTeX(identifier: string): Promise<string> {
-        const cleaned = encodeURIComponent(identifier.trim());
-        // Attempt to fetch BibTeX at configured endpoint
-        const fetchBib = async (baseUrl: string): Promise<string> => {
-            const fullUrl = `${baseUrl}${cleaned}`;
+    getProviders(): MetadataProvider[] {
+        return this.providers;
+    }
 
+    /**
+     * Look up an identifier
+     * @param input DOI, ISBN, ISSN, PubMed ID, PMCID, arXiv ID, Wikidata QID, Handle or URL, with or without prefixes
+     * @returns The CSL-JSON item and the provider that found it, or null when no provider has a record of it.
+     * Results cached within the cache lifetime are returned without asking the providers, and older
+     * cached results when every provider failed, e.g. without a network connection.
+     * @throws When the input is not a valid identifier, no enabled provider handles it, or every provider failed
+     */
+    async lookup(input: string, options: MetadataLookupOptions = {}): Promise<MetadataLookupResult | null> {
+        const identifier = detectIdentifier(input);
+        if (!identifier) {
+            throw new Error(`"${input.trim()}" is not a DOI, ISBN, ISSN, PubMed ID, PMCID, arXiv ID, Wikidata QID, Handle or URL`);
+        }
+        if (identifier.error) throw new Error(identifier.error);
+
+        const cacheKey = LookupCache.keyFor(identifier.kind, identifier.value);
+        const cached = options.bypassCache ? undefined : this.cache?.get(cacheKey);
+        if (cached && !LookupCache.isExpired(cached, this.cacheTtlDays)) {
+            return { csl: cached.csl, provider: cached.provider, cachedAt: cached.fetchedAt };
+        }
+
+        const providers = this.providers.filter(provider => provider.kinds.includes(identifier.kind));
+        if (providers.length === 0) {
+            throw new Error(`No enabled metadata provider looks up ${IDENTIFIER_KIND_LABELS[identifier.kind]}s`);
+        }
+
+        const errors: string[] = [];
+        for (const provider of providers) {
             try {
-                const resp = await requestUrl({
-                    url: fullUrl,
-                    method: 'GET',
-                    headers: {
-                        'Accept': 'application/x-bibtex',
-                        'User-Agent': 'Obsidian-BibLib'
-                    }
-                });
-
-                return resp.text;
-            } catch (err) {
-                return ''
-            }            
-        };
-
-        try {
-            let text = await fetchBib(this.apiUrl);
-            // If the response is not valid BibTeX (doesn't start with '@'), try fallback to '/bibtex/' path
-            if (!text.trim().startsWith('@')) {
-                // Fallback to try retrieving valid BibTeX
-                // Derive fallback base URL: replace 'mediawiki/' with 'bibtex/', or append 'bibtex/'
-                let fallbackBase = this.apiUrl;
-                if (fallbackBase.includes('/mediawiki/')) {
-                    fallbackBase = fallbackBase.replace(/\/mediawiki\/$/, '/bibtex/');
-                } else if (!fallbackBase.includes('/bibtex/')) {
-                    fallbackBase = fallbackBase.replace(/\/?$/, '/') + 'bibtex/';
-                }
-                text = await fetchBib(fallbackBase);
-                
-                if (!text.trim().startsWith('@')) {                    
-                    const data = await Cite.async(identifier)
-                    const bibliography = data.format('bibtex')
-                    text = bibliography;
+                const csl = await provider.lookup(identifier);
+                if (csl) {
+                    await this.cache?.set(cacheKey, csl, provider.id);
+                    return { csl, provider: provider.id };
                 }
+            } catch (error) {
+                console.warn(`${provider.name} lookup of ${identifier.value} failed:`, error);
+                errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
             }
-            return text;
-        } catch (err) {
-            console.error('Error fetching BibTeX from Citoid:', err);
-            throw err;
         }
+
+        // Only report failure when no provider could give an answer at all
+        if (errors.length === providers.length) {
+            if (cached) {
+                console.warn(`Using the cached result for ${identifier.value} from ${new Date(cached.fetchedAt).toISOString()}`);
+                return { csl: cached.csl, provider: cached.provider, cachedAt: cached.fetchedAt };
+            }
+            throw new Error(errors.join('; '));
+        }
+        return null;
     }
 
+    private createProvider(id: MetadataProviderId, settings?: BibliographyPluginSettings): MetadataProvider | null {
+        switch (id) {
+            case 'citoid': return new CitoidProvider();
+            case 'translation-server':
+                return settings?.translationServerUrl
+                    ? new TranslationServerProvider(settings.translationServerUrl, settings.translationServerType)
+                    : null;
+            case 'arxiv': return new ArxivProvider();
+            case 'crossref': return new CrossRefProvider(settings?.crossrefMailto);
+            case 'datacite': return new DataCiteProvider();
+            case 'pubmed': return new PubMedProvider();
+            case 'openlibrary': return new OpenLibraryProvider();
+            default: return null;
+        }
+    }
 }
@@ -0,0 +1,167 @@
+import { API_ENDPOINTS } from '../../constants';
+import { CrossRefDate, CrossRefPerson, CrossRefResponse } from '../../types/api';
+import { MetadataProvider, requestJson } from './metadata-provider';
+import { IdentifierKind, ParsedIdentifier } from '../../utils/identifiers';
+
+// CrossRef work types and their CSL equivalents; anything else becomes 'document'
+const CROSSREF_TYPES_TO_CSL: { [key: string]: string } = {
+    'journal-article': 'article-journal',
+    'book': 'book',
+    'monograph': 'book',
+    'edited-book': 'book',
+    'reference-book': 'book',
+    'book-set': 'book',
+    'book-series': 'book',
+    'book-track': 'book',
+    'proceedings': 'book',
+    'book-chapter': 'chapter',
+    'book-section': 'chapter',
+    'book-part': 'chapter',
+    'proceedings-article': 'paper-conference',
+    'posted-content': 'article', // Preprints
+    'dataset': 'dataset',
+    'report': 'report',
+    'report-series': 'report',
+    'report-component': 'report',
+    'dissertation': 'thesis',
+    'reference-entry': 'entry',
+    'standard': 'standard',
+    'peer-review': 'review',
+    'journal': 'periodical',
+    'journal-volume': 'periodical',
+    'journal-issue': 'periodical'
+};
+
+/**
+ * CrossRef, the registration agency for most journal article DOIs, which also
+ * knows journals by ISSN. Work records are mapped straight to CSL, keeping what
+ * a BibTeX round trip would lose: ORCIDs and affiliations, the short journal
+ * title, ISSN, funders, license and reference count.
+ */
+export class CrossRefProvider implements MetadataProvider {
+    readonly id = 'crossref';
+    readonly name = 'CrossRef';
+    readonly kinds: readonly IdentifierKind[] = ['doi', 'issn'];
+
+    /**
+     * @param mailto Contact address; requests that carry one are served from CrossRef's faster "polite" pool
+     */
+    constructor(private mailto: string = '') {}
+
+    async lookup({ kind, value }: ParsedIdentifier): Promise<any | null> {
+        if (kind === 'issn') {
+            const journal = (await this.request(`${API_ENDPOINTS.CROSSREF_JOURNALS_BASE}/${encodeURIComponent(value)}`))?.message;
+            return journal?.title ? { type: 'periodical', title: journal.title, publisher: journal.publisher, ISSN: value } : null;
+        }
+
+        const response: CrossRefResponse | null = await this.request(`${API_ENDPOINTS.CROSSREF_BASE}/${encodeURIComponent(value)}`);
+        return response?.message ? this.toCsl(response.message) : null;
+    }
+
+    private request(url: string): Promise<any | null> {
+        if (!this.mailto) return requestJson(url);
+        return requestJson(`${url}?mailto=${encodeURIComponent(this.mailto)}`, {
+            'User-Agent': `Obsidian-BibLib (mailto:${this.mailto})`
+        });
+    }
+
+    private toCsl(work: NonNullable<CrossRefResponse['message']>): any {
+        const title = work.title?.[0];
+        const subtitle = work.subtitle?.[0];
+        const issued = this.parseDate(work.issued) || this.parseDate(work['published-print'])
+            || this.parseDate(work['published-online']) || this.parseDate(work.published);
+        const online = this.parseDate(work['published-online']);
+        const license = work.license?.find(entry => entry['content-version'] === 'vor') || work.license?.[0];
+        const issn = work['issn-type']?.find(entry => entry.type === 'print')?.value || work.ISSN?.[0];
+
+        const csl: Record<string, any> = {
+            type: CROSSREF_TYPES_TO_CSL[work.type || ''] || 'document',
+            title: title && subtitle && !title.includes(subtitle) ? `${title}: ${subtitle}` : title,
+            'title-short': work['short-title']?.[0],
+            author: this.parsePeople(work.author),
+            editor: this.parsePeople(work.editor),
+            translator: this.parsePeople(work.translator),
+            'container-title': work['container-title']?.[0],
+            'container-title-short': work['short-container-title']?.[0],
+            'event-title': work.event?.name,
+            'event-place': work.event?.location,
+            publisher: work.publisher,
+            'publisher-place': work['publisher-location'] || work['publisher-place'],
+            volume: work.volume,
+            issue: work.issue,
+            page: work.page || work['article-number'],
+            edition: work['edition-number'],
+            issued,
+            'available-date': online && JSON.stringify(online) !== JSON.stringify(issued) ? online : undefined,
+            language: work.language,
+            abstract: work.abstract ? this.parseAbstract(work.abstract) : undefined,
+            DOI: work.DOI,
+            URL: work.URL,
+            ISBN: work.ISBN?.[0],
+            ISSN: issn,
+            funder: this.parseFunders(work.funder),
+            license: license?.URL,
+            'reference-count': work['reference-count'] ?? work['references-count']
+        };
+
+        for (const key of Object.keys(csl)) {
+            if (csl[key] === undefined || csl[key] === '' || (Array.isArray(csl[key]) && csl[key].length === 0)) {
+                delete csl[key];
+            }
+        }
+        return csl;
+    }
+
+    /**
+     * CSL names, keeping ORCID and affiliations on each person
+     */
+    private parsePeople(people: CrossRefPerson[] | undefined): any[] {
+        return (people || []).map(person => {
+            const name: Record<string, any> = person.name && !person.family
+                ? { literal: person.name }
+                : { family: person.family, given: person.given, suffix: person.suffix };
+            if (person.ORCID) name.ORCID = person.ORCID.replace(/^http:/, 'https:');
+            const affiliations = (person.affiliation || []).map(affiliation => affiliation.name).filter(Boolean);
+            if (affiliations.length > 0) name.affiliation = affiliations;
+
+            for (const key of Object.keys(name)) {
+                if (name[key] === undefined) delete name[key];
+            }
+            return name;
+        });
+    }
+
+    /**
+     * CrossRef dates may be incomplete, e.g. [[2020, null]] or [[null]]
+     */
+    private parseDate(date: CrossRefDate | undefined): { 'date-parts': number[][] } | undefined {
+        const parts = (date?.['date-parts']?.[0] || []).filter((part): part is number => typeof part === 'number');
+        return parts.length > 0 ? { 'date-parts': [parts] } : undefined;
+    }
+
+    /**
+     * Funder names with their award numbers, e.g. "National Science Foundation (1234567)"
+     */
+    private parseFunders(funders: NonNullable<CrossRefResponse['message']>['funder']): string | undefined {
+        const names = (funders || [])
+            .filter(funder => funder.name)
+            .map(funder => funder.award?.length ? `${funder.name} (${funder.award.join(', ')})` : funder.name);
+        return names.length > 0 ? names.join('; ') : undefined;
+    }
+
+    /**
+     * Abstracts come as JATS XML; keep the paragraphs and drop the markup
+     */
+    private parseAbstract(jats: string): string {
+        const text = jats
+            .replace(/<jats:title>[\s\S]*?<\/jats:title>/g, '')
+            .replace(/<\/jats:p>/g, '\n\n')
+            .replace(/<[^>]+>/g, '');
+        const decoded = new DOMParser().parseFromString(text, 'text/html').documentElement.textContent || text;
+        return decoded
+            .split(/\n{2,}/)
+            .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+            .filter(Boolean)
+            .join('\n\n');
+    }
+}
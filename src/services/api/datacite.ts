@@ -0,0 +1,18 @@
+import { API_ENDPOINTS } from '../../constants';
+import { MetadataProvider, requestJson, withoutId } from './metadata-provider';
+import { IdentifierKind, ParsedIdentifier } from '../../utils/identifiers';
+
+/**
+ * DataCite, the registration agency for DOIs of datasets, software and
+ * repository deposits (Zenodo, figshare, arXiv's own DOIs)
+ */
+export class DataCiteProvider implements MetadataProvider {
+    readonly id = 'datacite';
+    readonly name = 'DataCite';
+    readonly kinds: readonly IdentifierKind[] = ['doi'];
+
+    async lookup({ value }: ParsedIdentifier): Promise<any | null> {
+        const url = `${API_ENDPOINTS.DATACITE_BASE}/application/vnd.citationstyles.csl+json/${encodeURIComponent(value)}`;
+        return withoutId(await requestJson(url, { 'Accept': 'application/vnd.citationstyles.csl+json' }));
+    }
+}
@@ -0,0 +1,84 @@
+import { requestUrl } from 'obsidian';
+import Cite from 'citation-js';
+import '@citation-js/plugin-bibtex';
+import { MetadataProviderId } from '../../types/settings';
+import { TIMEOUTS } from '../../constants';
+import { IdentifierKind, ParsedIdentifier } from '../../utils/identifiers';
+
+/**
+ * A source of bibliographic metadata in the lookup chain
+ */
+export interface MetadataProvider {
+    readonly id: MetadataProviderId;
+    readonly name: string;
+    readonly kinds: readonly IdentifierKind[]; // Identifier kinds the provider can look up
+
+    /**
+     * Look up an identifier of one of the provider's kinds
+     * @returns A CSL-JSON item, or null when the provider has no record of the identifier
+     * @throws When the provider could not be reached or answered with an error
+     */
+    lookup(identifier: ParsedIdentifier): Promise<any | null>;
+}
+
+/**
+ * GET a JSON document, treating 404 as "no record"
+ * @returns The parsed body, or null on 404
+ */
+export async function requestJson(url: string, headers: Record<string, string> = {}): Promise<any | null> {
+    const response = await withTimeout(requestUrl({
+        url,
+        method: 'GET',
+        headers: { 'Accept': 'application/json', ...headers },
+        throw: false
+    }), url);
+
+    if (response.status === 404) return null;
+    if (response.status < 200 || response.status >= 300) {
+        throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+    }
+    return JSON.parse(response.text);
+}
+
+/**
+ * Fail a request that has not answered within the API timeout
+ */
+export function withTimeout<T>(request: Promise<T>, url: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = window.setTimeout(() => {
+            reject(new Error(`No response from ${new URL(url).host} within ${TIMEOUTS.API_REQUEST / 1000} seconds`));
+        }, TIMEOUTS.API_REQUEST);
+        request.then(
+            value => { window.clearTimeout(timer); resolve(value); },
+            error => { window.clearTimeout(timer); reject(error); }
+        );
+    });
+}
+
+/**
+ * Convert a BibTeX entry to a CSL-JSON item
+ * @returns The first entry, or null when the text has none
+ */
+export function bibtexToCsl(bibtex: string): any | null {
+    if (!bibtex.trim().startsWith('@')) return null;
+    const data = JSON.parse(new Cite(bibtex).get({ style: 'csl', type: 'string' }));
+    return (Array.isArray(data) ? data[0] : data) || null;
+}
+
+/**
+ * Split a name given as "Given Family", as Open Library and arXiv give them
+ */
+export function parseName(name: string): { family?: string, given?: string, literal?: string } {
+    const parts = name.trim().split(/\s+/);
+    if (parts.length < 2) return { literal: name.trim() };
+    return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') };
+}
+
+/**
+ * Drop the id a provider gave its CSL-JSON item (often a DOI or URL) so a citekey is generated instead
+ */
+export function withoutId(csl: any): any {
+    if (!csl || typeof csl !== 'object') return null;
+    const { id, ...rest } = csl;
+    return rest;
+}
@@ -0,0 +1,37 @@
+import { API_ENDPOINTS } from '../../constants';
+import { MetadataProvider, parseName, requestJson } from './metadata-provider';
+import { IdentifierKind, ParsedIdentifier } from '../../utils/identifiers';
+
+/**
+ * Open Library, for books by ISBN
+ */
+export class OpenLibraryProvider implements MetadataProvider {
+    readonly id = 'openlibrary';
+    readonly name = 'Open Library';
+    readonly kinds: readonly IdentifierKind[] = ['isbn'];
+
+    async lookup({ value }: ParsedIdentifier): Promise<any | null> {
+        const key = `ISBN:${value}`;
+        const url = `${API_ENDPOINTS.OPEN_LIBRARY_BASE}/api/books?bibkeys=${encodeURIComponent(key)}&format=json&jscmd=data`;
+        const book = (await requestJson(url))?.[key];
+        if (!book?.title) return null;
+
+        const year = /\b(\d{4})\b/.exec(book.publish_date || '')?.[1];
+        const csl: Record<string, any> = {
+            type: 'book',
+            title: book.subtitle ? `${book.title}: ${book.subtitle}` : book.title,
+            author: (book.authors || []).map((author: any) => parseName(String(author?.name || ''))),
+            publisher: book.publishers?.[0]?.name,
+            'publisher-place': book.publish_places?.[0]?.name,
+            issued: year ? { 'date-parts': [[Number(year)]] } : undefined,
+            'number-of-pages': book.number_of_pages,
+            ISBN: value,
+            URL: book.url
+        };
+
+        for (const key of Object.keys(csl)) {
+            if (csl[key] === undefined) delete csl[key];
+        }
+        return csl;
+    }
+}
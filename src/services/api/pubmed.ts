@@ -0,0 +1,19 @@
+import { API_ENDPOINTS } from '../../constants';
+import { MetadataProvider, requestJson, withoutId } from './metadata-provider';
+import { IdentifierKind, ParsedIdentifier } from '../../utils/identifiers';
+
+/**
+ * PubMed and PubMed Central, through NCBI's literature citation exporter
+ */
+export class PubMedProvider implements MetadataProvider {
+    readonly id = 'pubmed';
+    readonly name = 'PubMed';
+    readonly kinds: readonly IdentifierKind[] = ['pmid', 'pmcid'];
+
+    async lookup({ kind, value }: ParsedIdentifier): Promise<any | null> {
+        const database = kind === 'pmcid' ? 'pmc' : 'pubmed';
+        const url = `${API_ENDPOINTS.NCBI_CITATION_BASE}/${database}/?format=csl&id=${encodeURIComponent(value)}`;
+        const data = await requestJson(url);
+        return withoutId(Array.isArray(data) ? data[0] : data);
+    }
+}
@@ -0,0 +1,86 @@
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+import { MetadataProvider, bibtexToCsl, withTimeout, withoutId } from './metadata-provider';
+import { IdentifierKind, ParsedIdentifier } from '../../utils/identifiers';
+
+/**
+ * A self-hosted metadata server: either a Zotero translation-server
+ * (https://github.com/zotero/translation-server) or a Citoid service, such as
+ * an institution's own instance used instead of the public Wikipedia API.
+ */
+export class TranslationServerProvider implements MetadataProvider {
+    readonly id = 'translation-server';
+    readonly name = 'Self-hosted translation server';
+    readonly kinds: readonly IdentifierKind[];
+    private baseUrl: string;
+    private type: 'zotero' | 'citoid';
+
+    constructor(baseUrl: string, type: 'zotero' | 'citoid') {
+        this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+        this.type = type;
+        // The translation-server has no Wikidata or PubMed Central search
+        this.kinds = type === 'zotero'
+            ? ['doi', 'isbn', 'pmid', 'arxiv', 'handle', 'url']
+            : ['doi', 'isbn', 'pmid', 'pmcid', 'arxiv', 'qid', 'handle', 'url'];
+    }
+
+    async lookup(identifier: ParsedIdentifier): Promise<any | null> {
+        return this.type === 'zotero' ? this.lookupZotero(identifier) : this.lookupCitoid(identifier);
+    }
+
+    /**
+     * Translate the identifier to Zotero items with /web or /search, then
+     * convert the first item to CSL-JSON with /export
+     */
+    private async lookupZotero({ kind, value }: ParsedIdentifier): Promise<any | null> {
+        // Handles resolve to the repository's landing page, which /web translates
+        const endpoint = kind === 'url' || kind === 'handle' ? 'web' : 'search';
+        const query = kind === 'arxiv' ? `arXiv:${value}`
+            : kind === 'handle' ? `https://hdl.handle.net/${value}`
+            : value;
+
+        const translated = await this.post(`${this.baseUrl}/${endpoint}`, query, 'text/plain');
+        // 300 lists the items on a multi-item page, 501 means no translator matched
+        if (translated.status === 300 || translated.status === 404 || translated.status === 501) return null;
+        this.checkStatus(translated);
+
+        const items = JSON.parse(translated.text);
+        if (!Array.isArray(items) || items.length === 0) return null;
+
+        const exported = await this.post(`${this.baseUrl}/export?format=csljson`, JSON.stringify([items[0]]), 'application/json');
+        this.checkStatus(exported);
+
+        const data = JSON.parse(exported.text);
+        return withoutId(Array.isArray(data) ? data[0] : data);
+    }
+
+    /**
+     * Ask a self-hosted Citoid service for BibTeX
+     */
+    private async lookupCitoid({ kind, value }: ParsedIdentifier): Promise<any | null> {
+        const query = kind === 'arxiv' ? `https://arxiv.org/abs/${value}`
+            : kind === 'handle' ? `https://hdl.handle.net/${value}`
+            : value;
+        const url = `${this.baseUrl}/api?format=bibtex&search=${encodeURIComponent(query)}`;
+
+        const response = await withTimeout(requestUrl({
+            url,
+            method: 'GET',
+            headers: { 'Accept': 'application/x-bibtex' },
+            throw: false
+        }), url);
+        if (response.status === 404) return null;
+        this.checkStatus(response);
+
+        return bibtexToCsl(response.text);
+    }
+
+    private post(url: string, body: string, contentType: string): Promise<RequestUrlResponse> {
+        return withTimeout(requestUrl({ url, method: 'POST', body, contentType, throw: false }), url);
+    }
+
+    private checkStatus(response: RequestUrlResponse): void {
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`HTTP ${response.status} from ${this.baseUrl}`);
+        }
+    }
+}
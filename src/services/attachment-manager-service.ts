@@ -183,9 +183,10 @@ export class AttachmentManagerService {
    * Import a file attachment and place it in the proper location
    * @param attachmentData Data for the attachment to import
    * @param citekey Citekey to use for filename and folder
+   * @param baseFolder Optional folder to use instead of the attachment folder setting
    * @returns Path to the imported file or null if import failed
    */
-  async importAttachment(attachmentData: AttachmentData, citekey: string): Promise<string | null> {
+  async importAttachment(attachmentData: AttachmentData, citekey: string, baseFolder?: string): Promise<string | null> {
     try {
       // Only handle IMPORT type
       if (attachmentData.type !== AttachmentType.IMPORT || !attachmentData.file) {
@@ -193,7 +194,7 @@ export class AttachmentManagerService {
       }
       
       // Ensure base attachment directory exists
-      const biblibPath = normalizePath(this.settings.attachmentFolderPath);
+      const biblibPath = normalizePath(baseFolder || this.settings.attachmentFolderPath);
       try {
         const biblibFolder = this.app.vault.getAbstractFileByPath(biblibPath);
         if (!biblibFolder) {
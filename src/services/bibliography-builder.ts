@@ -1,5 +1,5 @@
 import { App, Notice, TFile, Vault, normalizePath } from 'obsidian';
-import { BibliographyPluginSettings } from '../types';
+import { BibliographyPluginSettings, LibrarySearchResult } from '../types';
 import Cite from 'citation-js';
 import '@citation-js/plugin-bibtex';
 import { AttachmentManagerService } from './attachment-manager-service';
@@ -46,7 +46,7 @@ export class BibliographyBuilder {
     /**
      * Find all literature notes in the vault
      */
-    private async findLiteratureNotes(): Promise<{file: TFile, frontmatter: any}[]> {
+    async findLiteratureNotes(): Promise<{file: TFile, frontmatter: any}[]> {
         const literatureNotes: {file: TFile, frontmatter: any}[] = [];
         
         // Get all markdown files
@@ -87,6 +87,71 @@ export class BibliographyBuilder {
         return literatureNotes;
     }
     
+    /**
+     * Find the literature note with the given citekey
+     */
+    async findLiteratureNote(citekey: string): Promise<{file: TFile, frontmatter: any} | null> {
+        const literatureNotes = await this.findLiteratureNotes();
+        return literatureNotes.find(note => String(note.frontmatter.id) === citekey) || null;
+    }
+
+    /**
+     * Find literature notes whose citekey, title, authors, year, container title,
+     * DOI or tags contain every word of the query, ignoring case and accents
+     * @returns Up to `limit` notes, exact citekey matches first, then notes matching on the title
+     */
+    async searchLiteratureNotes(query: string, limit: number): Promise<LibrarySearchResult[]> {
+        const terms = this.normalizeSearchText(query).split(' ').filter(term => term);
+        if (terms.length === 0) return [];
+
+        const matches: { result: LibrarySearchResult, score: number }[] = [];
+        for (const note of await this.findLiteratureNotes()) {
+            const fm = note.frontmatter;
+            const authors = (Array.isArray(fm.author) ? fm.author : [])
+                .map((author: any) => author?.literal || [author?.given, author?.family].filter(Boolean).join(' '))
+                .filter(Boolean)
+                .join('; ');
+            const year = fm.issued?.['date-parts']?.[0]?.[0] ?? fm.year;
+            const title = this.normalizeSearchText(String(fm.title || ''));
+            const text = this.normalizeSearchText([
+                fm.id, fm.title, authors, year, fm['container-title'], fm.DOI,
+                ...(Array.isArray(fm.tags) ? fm.tags : [])
+            ].filter(value => value !== undefined && value !== null).join(' '));
+
+            if (!terms.every(term => text.includes(term))) continue;
+
+            let score = 0;
+            if (String(fm.id).toLowerCase() === query.trim().toLowerCase()) score += 2;
+            if (terms.every(term => title.includes(term))) score += 1;
+
+            matches.push({
+                score,
+                result: {
+                    id: String(fm.id),
+                    title: fm.title || undefined,
+                    author: authors || undefined,
+                    year: year || undefined,
+                    type: fm.type || undefined,
+                    path: note.file.path
+                }
+            });
+        }
+
+        return matches
+            .sort((a, b) => b.score - a.score || a.result.id.localeCompare(b.result.id))
+            .slice(0, limit)
+            .map(match => match.result);
+    }
+
+    private normalizeSearchText(text: string): string {
+        return text
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+    
     /**
      * Create or update a list of citation keys
      */
@@ -145,23 +210,28 @@ export class BibliographyBuilder {
         }
     }
     
+    /**
+     * CSL-JSON for a literature note: its frontmatter without Obsidian-specific fields
+     */
+    toCslItem(note: {file: TFile, frontmatter: any}): any {
+        // We only need fields relevant for bibliography generation, not all metadata
+        const { 
+            position, // Remove Obsidian-specific metadata
+            tags, // Keep tags? Maybe configurable?
+             ...cslData // Keep the rest which should be mostly CSL compatible
+        } = note.frontmatter;
+        return cslData;
+    }
+    
     /**
      * Create or update a bibliography JSON file with all literature note data
      */
     private async createBibliographyJson(literatureNotes: {file: TFile, frontmatter: any}[]): Promise<void> {
         // Prepare the data for each literature note
         const bibliographyData = literatureNotes.map(note => {
-            // Extract the relevant data from frontmatter
-            // We only need fields relevant for bibliography generation, not all metadata
-            const { 
-                position, // Remove Obsidian-specific metadata
-                tags, // Keep tags? Maybe configurable?
-                 ...cslData // Keep the rest which should be mostly CSL compatible
-            } = note.frontmatter;
-            
             // Add file path for reference
             return { 
-                ...cslData, 
+                ...this.toCslItem(note), 
                 obsidianPath: note.file.path 
             };
         });
@@ -198,52 +268,7 @@ export class BibliographyBuilder {
             return;
         }
         try {
-            // Process the frontmatter data to handle empty date arrays
-            const dataArray = literatureNotes.map(note => {
-                const processedData = { ...note.frontmatter };
-                
-                // Fix for empty date-parts arrays in date fields
-                const dateFields = ['issued', 'accessed', 'container', 'event-date', 'original-date', 'submitted'];
-                for (const field of dateFields) {
-                    if (processedData[field] && 
-                        typeof processedData[field] === 'object' && 
-                        processedData[field]['date-parts'] && 
-                        Array.isArray(processedData[field]['date-parts'])) {
-                        
-                        // Check if date-parts contains empty arrays or has no valid date information
-                        const dateParts = processedData[field]['date-parts'];
-                        
-                        // More robust checking for valid date-parts structure
-                        let isValid = false;
-                        if (dateParts.length > 0) {
-                            for (const part of dateParts) {
-                                // Check if this part is an array and has valid date components
-                                if (Array.isArray(part) && part.length > 0) {
-                                    // Check if at least one component is a valid number
-                                    const hasValidComponent = part.some((component: any) => 
-                                        component !== null && 
-                                        component !== undefined && 
-                                        !isNaN(Number(component))
-                                    );
-                                    if (hasValidComponent) {
-                                        isValid = true;
-                                        break;
-                                    }
-                                }
-                            }
-                        }
-
-                        if (!isValid) {
-                            // Remove this date field entirely to avoid the error
-                            delete processedData[field];
-                        }
-                    }
-                }
-                
-                return processedData;
-            });
-            
-            const bib = new Cite(dataArray).get({ style: 'bibtex', type: 'string' });
+            const bib = this.generateBibTeX(literatureNotes);
             // Use the configured BibTeX file path directly
             let bibtexPath = this.settings.bibtexFilePath;
             bibtexPath = normalizePath(bibtexPath);
@@ -260,4 +285,56 @@ export class BibliographyBuilder {
             new Notice('Error exporting BibTeX file. See console for details.');
         }
     }
+
+    /**
+     * Convert literature notes to BibTeX, as written by the BibTeX export
+     */
+    generateBibTeX(literatureNotes: {file: TFile, frontmatter: any}[]): string {
+        // Process the frontmatter data to handle empty date arrays
+        const dataArray = literatureNotes.map(note => {
+            const processedData = { ...note.frontmatter };
+            
+            // Fix for empty date-parts arrays in date fields
+            const dateFields = ['issued', 'accessed', 'container', 'event-date', 'original-date', 'submitted'];
+            for (const field of dateFields) {
+                if (processedData[field] && 
+                    typeof processedData[field] === 'object' && 
+                    processedData[field]['date-parts'] && 
+                    Array.isArray(processedData[field]['date-parts'])) {
+                    
+                    // Check if date-parts contains empty arrays or has no valid date information
+                    const dateParts = processedData[field]['date-parts'];
+                    
+                    // More robust checking for valid date-parts structure
+                    let isValid = false;
+                    if (dateParts.length > 0) {
+                        for (const part of dateParts) {
+                            // Check if this part is an array and has valid date components
+                            if (Array.isArray(part) && part.length > 0) {
+                                // Check if at least one component is a valid number
+                                const hasValidComponent = part.some((component: any) => 
+                                    component !== null && 
+                                    component !== undefined && 
+                                    !isNaN(Number(component))
+                                );
+                                if (hasValidComponent) {
+                                    isValid = true;
+                                    break;
+                                }
+                            }
+                        }
+                    }
+
+                    if (!isValid) {
+                        // Remove this date field entirely to avoid the error
+                        delete processedData[field];
+                    }
+                }
+            }
+            
+            return processedData;
+        });
+        
+        return new Cite(dataArray).get({ style: 'bibtex', type: 'string' });
+    }
 }
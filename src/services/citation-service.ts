@@ -117,9 +117,12 @@ const parseDateRobust = (dateStr: string | undefined | any): any => {
 };
 // --- End Date Handling ---
 
-import { CitoidService } from './api/citoid'; // Adjust path if needed
-import { Notice } from 'obsidian';
+import { CitoidService, MetadataLookupOptions } from './api/citoid'; // Adjust path if needed
+import { LookupCache } from './lookup-cache';
+import { PageMetadata, PageMetadataExtractor } from './page-metadata-extractor';
+import { Notice, htmlToMarkdown, requestUrl } from 'obsidian';
 import { CitekeyGenerator } from '../utils/citekey-generator'; // Adjust path if needed
+import { BibliographyPluginSettings } from '../types/settings';
 
 
 // --- Zotero to CSL Mapping Logic (Full Adaptation) ---
@@ -473,31 +476,49 @@ function parseExtraField(extraString: string | undefined): Record<string, any> {
 // --- End Extra Field Parsing ---
 
 
+/**
+ * How Zotero tags are turned into Obsidian tags
+ */
+export interface ZoteroTagOptions {
+    prefix: string; // Prepended to every tag, e.g. 'zotero/'
+    normalization: 'none' | 'lowercase' | 'kebab-case';
+    includeAutomatic: boolean; // Also keep tags Zotero added automatically (type 1)
+}
+
+/**
+ * Curation a Zotero item carries besides its bibliographic data
+ */
+export interface ZoteroCuration {
+    tags: string[]; // Obsidian-ready tags
+    notes: string[]; // Child notes as Markdown
+    relations: string[]; // URIs or item IDs of related items
+}
+
+// Item types that say no more than "something on the web"
+const GENERIC_WEB_TYPES = ['webpage', 'document'];
+
 // --- Citation Service Class ---
 export class CitationService {
     private citoid: CitoidService;
+    private pageMetadata: PageMetadataExtractor;
     private citekeyOptions: any;
 
-    constructor(citekeyOptions?: any) {
-        this.citoid = new CitoidService();
+    constructor(citekeyOptions?: any, lookupSettings?: BibliographyPluginSettings, lookupCache?: LookupCache) {
+        this.citoid = new CitoidService(lookupSettings, lookupCache);
+        this.pageMetadata = new PageMetadataExtractor();
         this.citekeyOptions = citekeyOptions || CitekeyGenerator.defaultOptions;
     }
 
     /**
-     * Fetch normalized CSL-JSON for an identifier (DOI, URL, ISBN) via Citoid (BibTeX)
+     * Fetch normalized CSL-JSON for an identifier (DOI, URL, ISBN...) from the metadata provider chain
+     * @returns The CSL item, or null when no provider has a record of the identifier
      */
-    async fetchNormalized(id: string): Promise<any> {
+    async fetchNormalized(id: string, options: MetadataLookupOptions = {}): Promise<any> {
         try {
-            const bibtex = await this.citoid.fetchBibTeX(id);
-            const cite = new Cite(bibtex);
-            const jsonString = cite.get({ style: 'csl', type: 'string' });
-            const data = JSON.parse(jsonString);
-            let entry = Array.isArray(data) ? data[0] : data;
+            const result = await this.citoid.lookup(id, options);
+            if (!result) return null;
 
-            // Post-process entry fetched via BibTeX if needed (e.g., ensure type exists)
-            if (!entry) {
-                 throw new Error("Citoid returned empty or invalid data.");
-            }
+            const entry = result.csl;
             entry.type = entry.type || 'document'; // Ensure type exists
 
 
@@ -510,12 +531,87 @@ export class CitationService {
 
             return entry;
         } catch (e: any) {
-            console.error(`Error fetching/parsing BibTeX from Citoid for ID [${id}]:`, e);
+            console.error(`Error fetching citation data for ID [${id}]:`, e);
             new Notice(`Error fetching citation data for ${id}. ${e.message || ''}`);
             throw e;
         }
     }
 
+    /**
+     * Fetch CSL-JSON for a web page. The metadata providers (which run Zotero
+     * translators) are tried first; pages they only know as a generic web page
+     * are downloaded and read with the built-in page metadata extractor.
+     * @returns The CSL item and any PDF link the page advertises, or null if nothing was found
+     */
+    async fetchWebPage(url: string, options: MetadataLookupOptions = {}): Promise<PageMetadata | null> {
+        let citoidEntry: any = null;
+        try {
+            citoidEntry = (await this.citoid.lookup(url, options))?.csl || null;
+        } catch (e) {
+            console.warn(`No translator result for ${url}, reading the page instead:`, e);
+        }
+
+        // BibTeX @misc entries come back as 'document'
+        if (citoidEntry && !GENERIC_WEB_TYPES.includes(citoidEntry.type)) {
+            if (!citoidEntry.id) citoidEntry.id = CitekeyGenerator.generate(citoidEntry, this.citekeyOptions);
+            return { csl: citoidEntry };
+        }
+
+        let page: PageMetadata | null = null;
+        try {
+            const response = await requestUrl({ url, method: 'GET', headers: { 'Accept': 'text/html,application/xhtml+xml' } });
+            page = this.parseWebPage(response.text, url);
+        } catch (e) {
+            console.warn(`Could not download ${url} for its metadata:`, e);
+        }
+
+        if (page && citoidEntry) {
+            return { csl: this.mergePageMetadata(citoidEntry, page), pdfUrl: page.pdfUrl };
+        }
+        if (page) return page;
+        if (!citoidEntry) return null;
+
+        citoidEntry.type = citoidEntry.type || 'webpage';
+        if (!citoidEntry.id) citoidEntry.id = CitekeyGenerator.generate(citoidEntry, this.citekeyOptions);
+        return { csl: citoidEntry };
+    }
+
+    /**
+     * Read the bibliographic metadata embedded in a page's HTML. Works offline on saved pages.
+     * @param html Full HTML of the page
+     * @param url URL the page was loaded from
+     * @returns The CSL item with a generated citekey and any PDF link, or null if the page has no metadata
+     */
+    parseWebPage(html: string, url?: string): PageMetadata | null {
+        const page = this.pageMetadata.extract(html, url);
+        if (!page) return null;
+
+        page.csl.id = CitekeyGenerator.generate(page.csl, this.citekeyOptions);
+        return page;
+    }
+
+    /**
+     * Improve a generic web page item with the metadata read from the page. The page's
+     * title and type win, other fields only fill gaps. A citekey generated from the
+     * generic data is generated again from the merged data.
+     */
+    mergePageMetadata(cslData: any, page: PageMetadata): any {
+        const merged = { ...cslData };
+        const generatedId = !cslData.id || cslData.id === CitekeyGenerator.generate(cslData, this.citekeyOptions);
+
+        for (const [key, value] of Object.entries(page.csl)) {
+            if (key === 'id') continue;
+            const missing = merged[key] === undefined || merged[key] === null || merged[key] === ''
+                || (Array.isArray(merged[key]) && merged[key].length === 0);
+            if (missing || key === 'title' || (key === 'type' && GENERIC_WEB_TYPES.includes(merged.type))) {
+                merged[key] = value;
+            }
+        }
+
+        if (generatedId) merged.id = CitekeyGenerator.generate(merged, this.citekeyOptions);
+        return merged;
+    }
+
     /**
      * Parse BibTeX string directly using Citation.js
      */
@@ -545,6 +641,29 @@ export class CitationService {
         }
     }
 
+    /**
+     * Parse RIS content into CSL-JSON entries, one per RIS record.
+     */
+    parseRis(ris: string): any[] {
+        try {
+            const cite = new Cite(ris, { forceType: '@ris/file' });
+            const data = JSON.parse(cite.get({ style: 'csl', type: 'string' }));
+            const entries: any[] = Array.isArray(data) ? data : [data];
+
+            return entries.filter(entry => entry).map(entry => {
+                entry.type = entry.type || 'document'; // Ensure type exists
+                // Records without an ID tag get a placeholder 'temp_id_...' from Citation.js
+                if (!entry.id || typeof entry.id !== 'string' || entry.id.trim() === '' || entry.id.startsWith('temp_id_')) {
+                    entry.id = CitekeyGenerator.generate(entry, this.citekeyOptions);
+                }
+                return entry;
+            });
+        } catch (e: any) {
+            console.error('Error parsing RIS:', e);
+            throw e;
+        }
+    }
+
     /**
      * Parse Zotero JSON data using the robust custom mapping.
      */
@@ -663,6 +782,77 @@ export class CitationService {
     }
 
 
+    /**
+     * Read the tags, child notes and relations of a Zotero item. None of them has
+     * a CSL equivalent, so parseZoteroItem leaves them out.
+     */
+    parseZoteroCuration(zoteroItem: any, tagOptions: ZoteroTagOptions): ZoteroCuration {
+        const tags: string[] = [];
+        for (const entry of Array.isArray(zoteroItem?.tags) ? zoteroItem.tags : []) {
+            const raw = typeof entry === 'string' ? entry : entry?.tag;
+            // Type 1 marks tags added automatically, e.g. subject headings from a database
+            if (typeof raw !== 'string' || (entry?.type === 1 && !tagOptions.includeAutomatic)) continue;
+
+            const tag = this.normalizeZoteroTag(raw, tagOptions);
+            if (tag && !tags.includes(tag)) tags.push(tag);
+        }
+
+        const notes: string[] = [];
+        for (const entry of Array.isArray(zoteroItem?.notes) ? zoteroItem.notes : []) {
+            const html = typeof entry === 'string' ? entry : entry?.note;
+            if (typeof html !== 'string' || !html.trim()) continue;
+
+            const markdown = htmlToMarkdown(html).replace(/\n{3,}/g, '\n\n').trim();
+            if (markdown) notes.push(markdown);
+        }
+
+        // Relations map a predicate such as dc:relation to one URI or a list of them
+        const relations: string[] = [];
+        const addRelation = (value: unknown) => {
+            if (typeof value === 'string' && value.trim() && !relations.includes(value.trim())) {
+                relations.push(value.trim());
+            }
+        };
+        if (zoteroItem?.relations && typeof zoteroItem.relations === 'object') {
+            for (const value of Object.values(zoteroItem.relations)) {
+                (Array.isArray(value) ? value : [value]).forEach(addRelation);
+            }
+        }
+        // Translators link items saved together through seeAlso
+        (Array.isArray(zoteroItem?.seeAlso) ? zoteroItem.seeAlso : []).forEach(addRelation);
+
+        return { tags, notes, relations };
+    }
+
+    /**
+     * Turn a Zotero tag into a valid Obsidian tag, or an empty string if nothing usable is left
+     */
+    private normalizeZoteroTag(raw: string, options: ZoteroTagOptions): string {
+        let tag = raw.trim().replace(/^#/, '');
+
+        if (options.normalization === 'lowercase') {
+            tag = tag.toLowerCase();
+        } else if (options.normalization === 'kebab-case') {
+            tag = tag
+                .normalize('NFKD')
+                .replace(/[\u0300-\u036f]/g, '')
+                .toLowerCase()
+                .replace(/[^\p{L}\p{N}/]+/gu, '-');
+        }
+
+        // Obsidian tags may only contain letters, numbers, _, - and /
+        tag = tag
+            .replace(/\s+/g, '-')
+            .replace(/[^\p{L}\p{N}_\-/]/gu, '')
+            .replace(/-{2,}/g, '-')
+            .replace(/^[-/]+|[-/]+$/g, '');
+        if (!tag) return '';
+
+        const prefixed = `${options.prefix.trim().replace(/^#/, '')}${tag}`;
+        // A tag made only of digits is not recognised by Obsidian
+        return /^[\d/]+$/.test(prefixed) ? '' : prefixed;
+    }
+
     /**
      * Robustly map Zotero item data to CSL-JSON format using detailed rules.
      */
@@ -0,0 +1,106 @@
+import * as http from 'http';
+import * as https from 'https';
+import { BibliographyPluginSettings } from '../types/settings';
+import { API_ENDPOINTS, TIMEOUTS } from '../constants';
+
+const MAX_REDIRECTS = 5;
+const MAX_LOOKUP_RESPONSE_SIZE = 1024 * 1024; // Resolver answers are small JSON documents
+
+/**
+ * Finds open-access PDFs for captured items through an Unpaywall-style API:
+ * `GET <endpoint>/<DOI>?email=<address>` answering with `best_oa_location` and
+ * `oa_locations`, each of which may have a `url_for_pdf`. Desktop only, as it
+ * uses Node's http modules so downloads can be streamed and size-checked.
+ */
+export class ConnectorAttachmentResolver {
+    private settings: BibliographyPluginSettings;
+
+    constructor(settings: BibliographyPluginSettings) {
+        this.settings = settings;
+    }
+
+    public isEnabled(): boolean {
+        return this.settings.zoteroConnectorResolveAttachments;
+    }
+
+    /**
+     * DOI of a Zotero item, from its DOI field or, for item types without one, its Extra field
+     */
+    public getDoi(item: any): string | null {
+        const candidates = [item?.DOI, /^DOI:\s*(\S+)/im.exec(item?.extra || '')?.[1]];
+        for (const candidate of candidates) {
+            const match = typeof candidate === 'string' ? /10\.\d{4,9}\/\S+/.exec(candidate) : null;
+            if (match) return match[0];
+        }
+        return null;
+    }
+
+    /**
+     * Ask the resolver for open-access PDF links to a DOI, best location first
+     */
+    public async findPdfUrls(doi: string): Promise<string[]> {
+        const base = (this.settings.zoteroConnectorResolverUrl || API_ENDPOINTS.UNPAYWALL_BASE).replace(/\/+$/, '');
+        const lookupUrl = new URL(`${base}/${doi.split('/').map(encodeURIComponent).join('/')}`);
+        if (this.settings.zoteroConnectorResolverEmail) {
+            lookupUrl.searchParams.set('email', this.settings.zoteroConnectorResolverEmail);
+        }
+
+        const response = await this.open(lookupUrl.href);
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of response) {
+            size += chunk.length;
+            if (size > MAX_LOOKUP_RESPONSE_SIZE) {
+                response.destroy();
+                throw new Error('Resolver response is too large');
+            }
+            chunks.push(Buffer.from(chunk));
+        }
+
+        const data = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        const locations = [data?.best_oa_location, ...(Array.isArray(data?.oa_locations) ? data.oa_locations : [])];
+        const urls = locations
+            .map(location => location?.url_for_pdf)
+            .filter((url): url is string => typeof url === 'string' && /^https?:\/\//i.test(url));
+        return [...new Set(urls)];
+    }
+
+    /**
+     * Start a GET request and return the response once it is a 200, following redirects.
+     * The caller reads (or destroys) the body.
+     */
+    public open(target: string, redirects: number = 0): Promise<http.IncomingMessage> {
+        return new Promise((resolve, reject) => {
+            const parsed = new URL(target);
+            const client = parsed.protocol === 'https:' ? https : (parsed.protocol === 'http:' ? http : null);
+            if (!client) {
+                reject(new Error(`Unsupported URL ${target}`));
+                return;
+            }
+
+            const request = client.get(parsed, { headers: { 'Accept': 'application/pdf, application/json;q=0.9, */*;q=0.8' } }, response => {
+                const status = response.statusCode || 0;
+                if (status >= 300 && status < 400 && response.headers.location) {
+                    response.resume();
+                    if (redirects >= MAX_REDIRECTS) {
+                        reject(new Error(`Too many redirects from ${target}`));
+                        return;
+                    }
+                    resolve(this.open(new URL(response.headers.location, target).href, redirects + 1));
+                    return;
+                }
+                if (status !== 200) {
+                    response.resume();
+                    reject(new Error(`HTTP ${status} from ${parsed.host}`));
+                    return;
+                }
+                resolve(response);
+            });
+
+            request.setTimeout(TIMEOUTS.API_REQUEST, () => {
+                request.destroy(new Error(`No response from ${parsed.host} within ${TIMEOUTS.API_REQUEST / 1000} seconds`));
+            });
+            request.on('error', reject);
+        });
+    }
+}
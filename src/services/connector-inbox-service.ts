@@ -0,0 +1,120 @@
+import { App, normalizePath } from 'obsidian';
+import { ConnectorInboxEntry } from '../types/connector';
+
+/**
+ * Keeps the items captured through the Zotero Connector that are waiting for
+ * review, and stores them in the plugin folder so they survive a restart.
+ */
+export class ConnectorInboxService {
+    private app: App;
+    private filePath: string;
+    private entries: ConnectorInboxEntry[] = [];
+    private listeners: Set<() => void> = new Set();
+    // Serialises writes so a slow write never overwrites a newer one
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(app: App, pluginDir: string) {
+        this.app = app;
+        this.filePath = normalizePath(`${pluginDir}/connector-inbox.json`);
+    }
+
+    /**
+     * Load the pending entries from disk
+     */
+    public async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath));
+            this.entries = Array.isArray(data?.entries) ? data.entries : [];
+            this.notify();
+        } catch (error) {
+            console.error('Error loading connector inbox:', error);
+            this.entries = [];
+        }
+    }
+
+    /**
+     * Get the pending entries, oldest first
+     */
+    public getEntries(): ConnectorInboxEntry[] {
+        return [...this.entries];
+    }
+
+    public getEntry(id: string): ConnectorInboxEntry | undefined {
+        return this.entries.find(entry => entry.id === id);
+    }
+
+    /**
+     * Add a captured item. A repeated capture of the same item replaces the earlier entry.
+     */
+    public async add(entry: ConnectorInboxEntry): Promise<void> {
+        const index = this.entries.findIndex(existing => existing.id === entry.id);
+        if (index > -1) {
+            this.entries[index] = entry;
+        } else {
+            this.entries.push(entry);
+        }
+        await this.save();
+    }
+
+    /**
+     * Record attachments that finished downloading after the item was added
+     */
+    public async addFiles(id: string, files: string[]): Promise<void> {
+        const entry = this.getEntry(id);
+        if (!entry) return;
+
+        for (const file of files) {
+            if (entry.files.includes(file)) continue;
+            entry.files.push(file);
+
+            const state = entry.attachments.find(attachment => attachment.localPath === file);
+            if (!state) {
+                entry.attachments.push({ id: file, title: file.split(/[/\\]/).pop(), progress: 100, localPath: file });
+            }
+        }
+        await this.save();
+    }
+
+    /**
+     * Apply changes made in the connector popup to every entry of a session
+     */
+    public async updateSession(sessionID: string, changes: Partial<Pick<ConnectorInboxEntry, 'targetFolder' | 'tags' | 'note'>>): Promise<void> {
+        const entries = this.entries.filter(entry => entry.sessionID === sessionID);
+        if (entries.length === 0) return;
+
+        entries.forEach(entry => Object.assign(entry, changes));
+        await this.save();
+    }
+
+    public async remove(id: string): Promise<void> {
+        const count = this.entries.length;
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        if (this.entries.length !== count) {
+            await this.save();
+        }
+    }
+
+    /**
+     * Listen for changes to the pending entries
+     * @returns A function that removes the listener
+     */
+    public onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private save(): Promise<void> {
+        const data = JSON.stringify({ entries: this.entries }, null, 2);
+        this.writeQueue = this.writeQueue
+            .then(() => this.app.vault.adapter.write(this.filePath, data))
+            .catch(error => console.error('Error saving connector inbox:', error));
+        this.notify();
+        return this.writeQueue;
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
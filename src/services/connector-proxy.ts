@@ -0,0 +1,88 @@
+import * as http from 'http';
+import * as stream from 'stream';
+
+/**
+ * Response received from the upstream Zotero
+ */
+export interface UpstreamResponse {
+    statusCode: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+// Request headers that describe the connection to us rather than the request itself
+const HOP_BY_HOP_HEADERS = [
+    'host', 'connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade',
+    'authorization', 'x-biblib-token'
+];
+
+// Give up on an upstream that stops sending or receiving data for this long
+const UPSTREAM_IDLE_TIMEOUT = 30000;
+
+/**
+ * Forwards connector requests to a Zotero desktop app listening on another
+ * port, so a capture is saved in Zotero as well as in Obsidian. Desktop only,
+ * as it uses Node's http module.
+ */
+export class ConnectorProxy {
+    private host: string;
+    private port: number;
+
+    constructor(host: string, port: number) {
+        this.host = host;
+        this.port = port;
+    }
+
+    public getTarget(): string {
+        return `${this.host.includes(':') ? `[${this.host}]` : this.host}:${this.port}`;
+    }
+
+    /**
+     * Send a request to the upstream Zotero with the given body
+     * @param req The request received from the connector, for its method, path and headers
+     * @param body The request body, read as it arrives
+     * @returns The upstream response, or null when Zotero could not be reached
+     */
+    public forward(req: http.IncomingMessage, body: stream.Readable): Promise<UpstreamResponse | null> {
+        const headers: http.OutgoingHttpHeaders = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+            if (value !== undefined && !HOP_BY_HOP_HEADERS.includes(name)) {
+                headers[name] = value;
+            }
+        }
+        headers.host = this.getTarget();
+
+        return new Promise(resolve => {
+            const upstreamReq = http.request({
+                host: this.host,
+                port: this.port,
+                method: req.method,
+                path: req.url,
+                headers
+            }, upstreamRes => {
+                const chunks: Buffer[] = [];
+                upstreamRes.on('data', chunk => chunks.push(Buffer.from(chunk)));
+                upstreamRes.on('end', () => resolve({
+                    statusCode: upstreamRes.statusCode || 502,
+                    headers: upstreamRes.headers,
+                    body: Buffer.concat(chunks)
+                }));
+                upstreamRes.on('error', error => {
+                    console.warn(`Connector proxy: Error reading response from Zotero at ${this.getTarget()}:`, error);
+                    resolve(null);
+                });
+            });
+
+            upstreamReq.setTimeout(UPSTREAM_IDLE_TIMEOUT, () => {
+                upstreamReq.destroy(new Error(`No response within ${UPSTREAM_IDLE_TIMEOUT / 1000} seconds`));
+            });
+            upstreamReq.on('error', error => {
+                console.warn(`Connector proxy: Could not forward ${req.method} ${req.url} to Zotero at ${this.getTarget()}:`, error.message);
+                body.resume();
+                resolve(null);
+            });
+
+            body.pipe(upstreamReq);
+        });
+    }
+}
@@ -1,18 +1,35 @@
-import { App, Notice } from 'obsidian';
+import { App, Notice, TFolder, normalizePath } from 'obsidian';
 import * as http from 'http';
 import * as https from 'https';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as net from 'net';
 import * as stream from 'stream';
 import * as url from 'url';
 import * as crypto from 'crypto';
-import * as os from 'os';
 import { promisify } from 'util';
 import { BibliographyPluginSettings } from '../types/settings';
+import { ConnectorAttachmentState, ConnectorJournalSession } from '../types/connector';
+import type { ConnectorSessionJournal } from './connector-session-journal';
+import { ConnectorTempFolder } from './connector-temp-folder';
+import { ConnectorProxy, UpstreamResponse } from './connector-proxy';
+import { ConnectorAttachmentResolver } from './connector-attachment-resolver';
+import type { BulkImportResult } from './note-creation-service';
+import type { LibrarySearchResult } from '../types/api';
 import {
     DEFAULT_ZOTERO_PORT,
     LOCALHOST,
+    LOOPBACK_ADDRESSES,
+    PORT_IN_USE_RETRIES,
+    PORT_IN_USE_RETRY_DELAY,
+    FREE_PORT_SEARCH_RANGE,
+    CONNECTOR_EXTENSION_ORIGIN_PREFIXES,
+    CONNECTOR_TOKEN_HEADER,
+    MAX_REQUEST_BODY_SIZE,
+    DEFAULT_ATTACHMENT_MIME_TYPES,
+    LIMITS,
     NOTICE_DURATION_SHORT,
+    NOTICE_DURATION_LONG,
     HTTP_STATUS,
     CONTENT_TYPE,
     ERROR_MESSAGES,
@@ -27,24 +44,47 @@ const ZOTERO_APP_NAME = 'Obsidian BibLib';
 const CONNECTOR_API_VERSION_SUPPORTED = 3;
 const SESSION_CLEANUP_INTERVAL = 600000; // 10 minutes
 const SESSION_MAX_AGE = 1800000; // 30 minutes (extended for slow attachments)
+// Endpoints that also go to the upstream Zotero in proxy mode. Popup edits are not
+// forwarded, as Obsidian's folder targets mean nothing to Zotero.
+const PROXIED_ENDPOINTS = ['ping', 'saveItems', 'saveSnapshot', 'saveAttachment', 'saveStandaloneAttachment', 'saveSingleFile'];
+const UPSTREAM_WARNING_INTERVAL = 60000; // Warn about an unreachable Zotero at most once a minute
+const API_SEARCH_DEFAULT_LIMIT = 20;
+const API_SEARCH_MAX_LIMIT = 100;
 
 // --- Interfaces ---
 interface AttachmentStatus {
     progress: number;
     error?: string;
     localPath?: string;
+    tempPath?: string; // File being written while the download is in progress
+    parentItemID?: string; // ID of the session item the attachment belongs to
 }
 interface SessionData {
     uri: string;
     items: any[];
     startTime: number;
     attachmentStatus: { [attachmentId: string]: AttachmentStatus };
+    attachmentParents: { [attachmentId: string]: string }; // Attachment ID -> parent item ID, from saveItems
+    targetFolder?: string; // Vault folder chosen in the connector popup, unset for the default folder
+    tags?: string[]; // Tags typed in the connector popup
+    note?: string; // Note text typed in the connector popup
     initialRequestData?: any;
     expectedAttachmentIds: Set<string>;
     eventDispatched: boolean;
     processedSnapshots: Set<string>; // Track processed HTML snapshots
     processedAttachmentPaths: Set<string>; // Track processed attachment paths
 }
+interface CollectionTarget {
+    id: string;
+    name: string;
+    level: number;
+    parentID?: string;
+    path: string; // Vault folder the target stands for
+}
+interface CapturedResponse {
+    statusCode?: number;
+    body?: any;
+}
 interface AttachmentMetadata {
     id?: string;
     url?: string;
@@ -53,32 +93,110 @@ interface AttachmentMetadata {
     title?: string;
 }
 
+/**
+ * Thrown when a request body grows past its size limit
+ */
+class RequestTooLargeError extends Error {
+    constructor(limit: number, subject: string = 'Request body') {
+        super(`${subject} exceeds the ${Math.round(limit / (1024 * 1024))} MB size limit`);
+        this.name = 'RequestTooLargeError';
+    }
+}
+
+/**
+ * Work the server hands back to the plugin because it needs the vault
+ */
+export interface ConnectorRequestHandlers {
+    importReferences(content: string, format: 'bib' | 'ris' | 'json', sourceName: string): Promise<BulkImportResult>;
+    getItem(citekey: string): Promise<any | null>; // CSL-JSON of the literature note with the citekey
+    searchItems(query: string, limit: number): Promise<LibrarySearchResult[]>;
+    exportBibTeX(): Promise<string>; // All literature notes, as the BibTeX export writes them
+}
+
 /**
  * A server that intercepts Zotero Connector requests to integrate with Obsidian.
  */
 export class ConnectorServer {
     private server: http.Server | null = null;
+    private sockets: Set<net.Socket> = new Set();
     private app: App;
     private settings: BibliographyPluginSettings;
-    private tempDir: string;
+    private tempFolder: ConnectorTempFolder;
     private sessions: Map<string, SessionData> = new Map();
     private processedSnapshots: Set<string> = new Set(); // Track processed HTML snapshots by session ID
     private processedAttachmentPaths: Map<string, string> = new Map(); // Track attachment paths by session+filename
     private cleanupIntervalId: NodeJS.Timeout | null = null;
-
-    constructor(app: App, settings: BibliographyPluginSettings) {
+    private handlers: ConnectorRequestHandlers;
+    private journal: ConnectorSessionJournal;
+    private selectedTargetId: string | null = null; // Last target picked in the connector popup
+    private requestBodies: WeakMap<http.IncomingMessage, stream.Readable> = new WeakMap(); // Local copy of bodies also sent upstream
+    private capturedResponses: WeakMap<http.ServerResponse, CapturedResponse> = new WeakMap(); // Local answers to forwarded requests
+    private lastUpstreamWarning = 0;
+    private attachmentResolver: ConnectorAttachmentResolver;
+
+    constructor(app: App, settings: BibliographyPluginSettings, handlers: ConnectorRequestHandlers, journal: ConnectorSessionJournal) {
         this.app = app;
         this.settings = settings;
-        this.tempDir = settings.tempPdfPath || path.join(os.tmpdir(), 'obsidian-bibliography');
+        this.handlers = handlers;
+        this.journal = journal;
+        this.tempFolder = new ConnectorTempFolder(settings);
+        this.attachmentResolver = new ConnectorAttachmentResolver(settings);
 
-        if (!fs.existsSync(this.tempDir)) {
+        const tempDir = this.tempFolder.getPath();
+        if (!fs.existsSync(tempDir)) {
             try {
-                fs.mkdirSync(this.tempDir, { recursive: true });
+                fs.mkdirSync(tempDir, { recursive: true });
             } catch (err) {
-                console.error(`Failed to create temp directory ${this.tempDir}:`, err);
-                new Notice(`Error: Could not create temp directory for Zotero Connector: ${this.tempDir}`);
+                console.error(`Failed to create temp directory ${tempDir}:`, err);
+                new Notice(`Error: Could not create temp directory for Zotero Connector: ${tempDir}`);
+            }
+        }
+    }
+
+    /**
+     * Port the server listens on, falling back to the Zotero default if the setting is invalid
+     */
+    public getPort(): number {
+        const port = Number(this.settings.zoteroConnectorPort);
+        return Number.isInteger(port) && port >= 1024 && port <= 65535 ? port : DEFAULT_ZOTERO_PORT;
+    }
+
+    /**
+     * Address the server binds to. Only loopback addresses are accepted so the
+     * server is never reachable from other machines.
+     */
+    public getHost(): string {
+        const host = this.settings.zoteroConnectorHost;
+        return (LOOPBACK_ADDRESSES as readonly string[]).includes(host) ? host : LOCALHOST;
+    }
+
+    public isRunning(): boolean {
+        return this.server !== null;
+    }
+
+    /**
+     * Number of items in sessions whose attachments are still arriving
+     */
+    public getReceivingItemCount(): number {
+        let count = 0;
+        for (const session of this.sessions.values()) {
+            if (!session.eventDispatched) count += session.items.length;
+        }
+        return count;
+    }
+
+    /**
+     * Temp files that belong to the sessions the server still tracks, finished or not
+     */
+    public getSessionFiles(): string[] {
+        const files: string[] = [];
+        for (const session of this.sessions.values()) {
+            for (const status of Object.values(session.attachmentStatus)) {
+                if (status.localPath) files.push(status.localPath);
+                if (status.tempPath) files.push(status.tempPath);
             }
         }
+        return files;
     }
 
     public async start(): Promise<void> {
@@ -86,30 +204,88 @@ export class ConnectorServer {
             return;
         }
 
-        const port = DEFAULT_ZOTERO_PORT; // Use default port since Zotero connector is disabled
+        const port = this.getPort();
+        const host = this.getHost();
 
-        this.server = http.createServer(this.handleRequest.bind(this));
+        for (let attempt = 0; ; attempt++) {
+            try {
+                await this.listen(port, host);
+                break;
+            } catch (err) {
+                const code = (err as NodeJS.ErrnoException).code;
+                // A server we just stopped may not have released the port yet
+                if (code === 'EADDRINUSE' && attempt < PORT_IN_USE_RETRIES) {
+                    await new Promise(resolve => setTimeout(resolve, PORT_IN_USE_RETRY_DELAY));
+                    continue;
+                }
+                await this.reportStartError(err as NodeJS.ErrnoException, port, host);
+                throw err;
+            }
+        }
+
+        new Notice(`${SUCCESS_MESSAGES.ZOTERO_SERVER_STARTED} ${port}`);
+        this.cleanupIntervalId = setInterval(() => this.cleanupOldSessions(), SESSION_CLEANUP_INTERVAL);
+    }
+
+    /**
+     * Create the HTTP server and bind it, resolving once it is listening
+     */
+    private listen(port: number, host: string): Promise<void> {
+        const server = http.createServer(this.handleRequest.bind(this));
+
+        // Track open sockets so stop() can close keep-alive connections immediately
+        server.on('connection', (socket: net.Socket) => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
 
         return new Promise((resolve, reject) => {
-            this.server?.listen(port, LOCALHOST, () => {
-                new Notice(`${SUCCESS_MESSAGES.ZOTERO_SERVER_STARTED} ${port}`);
-                this.cleanupIntervalId = setInterval(() => this.cleanupOldSessions(), SESSION_CLEANUP_INTERVAL);
+            const onError = (err: NodeJS.ErrnoException) => {
+                server.close();
+                reject(err);
+            };
+            server.once('error', onError);
+            server.listen(port, host, () => {
+                server.removeListener('error', onError);
+                server.on('error', (err) => console.error('Zotero Connector server error:', err));
+                this.server = server;
                 resolve();
             });
+        });
+    }
 
-            this.server?.on('error', (err: NodeJS.ErrnoException) => {
-                console.error('Failed to start Zotero Connector server:', err);
-                let message = `Failed to start Zotero Connector server: ${err.message}`;
-                if (err.code === 'EADDRINUSE') {
-                    message = `Failed to start Zotero Connector server: Port ${port} ${ERROR_MESSAGES.ZOTERO_PORT_IN_USE}`;
-                } else if (err.code === 'EACCES') {
-                     message = `Failed to start Zotero Connector server: ${ERROR_MESSAGES.ZOTERO_PORT_ACCESS_DENIED.replace('port', `port ${port}`)}`;
-                }
-                new Notice(message);
-                this.server = null;
-                reject(err);
+    /**
+     * Show a notice explaining why the server could not start
+     */
+    private async reportStartError(err: NodeJS.ErrnoException, port: number, host: string): Promise<void> {
+        console.error('Failed to start Zotero Connector server:', err);
+        let message = `Failed to start Zotero Connector server: ${err.message}`;
+        if (err.code === 'EADDRINUSE') {
+            message = `Failed to start Zotero Connector server: Port ${port} ${ERROR_MESSAGES.ZOTERO_PORT_IN_USE}`;
+            const freePort = await this.findFreePort(port + 1, host);
+            if (freePort) {
+                message += ` Port ${freePort} is free; you can switch to it in the Zotero integration settings.`;
+            }
+        } else if (err.code === 'EACCES') {
+            message = `Failed to start Zotero Connector server: ${ERROR_MESSAGES.ZOTERO_PORT_ACCESS_DENIED.replace('port', `port ${port}`)}`;
+        }
+        new Notice(message, NOTICE_DURATION_LONG);
+    }
+
+    /**
+     * Find the first port from startPort that can be bound on host
+     * @returns The free port, or null if none was found in the search range
+     */
+    private async findFreePort(startPort: number, host: string): Promise<number | null> {
+        for (let port = startPort; port < startPort + FREE_PORT_SEARCH_RANGE && port <= 65535; port++) {
+            const isFree = await new Promise<boolean>(resolve => {
+                const probe = net.createServer();
+                probe.once('error', () => resolve(false));
+                probe.listen(port, host, () => probe.close(() => resolve(true)));
             });
-        });
+            if (isFree) return port;
+        }
+        return null;
     }
 
     public stop(): Promise<void> {
@@ -119,12 +295,19 @@ export class ConnectorServer {
                 this.cleanupIntervalId = null;
             }
             if (this.server) {
-                this.server.close(() => {
+                const server = this.server;
+                this.server = null;
+                server.close(() => {
                     new Notice('Zotero Connector server stopped', NOTICE_DURATION_SHORT);
-                    this.server = null;
+                    // Undispatched sessions stay in the journal and are offered again on the next start
                     this.sessions.clear();
                     resolve();
                 });
+                // close() waits for open connections, so end them rather than waiting for keep-alive timeouts
+                for (const socket of this.sockets) {
+                    socket.destroy();
+                }
+                this.sockets.clear();
             } else {
                 resolve();
             }
@@ -132,9 +315,24 @@ export class ConnectorServer {
     }
 
     private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-        res.setHeader('Access-Control-Allow-Origin', '*');
+        const parsedUrl = url.parse(req.url || '', true);
+        const pathname = parsedUrl.pathname || '';
+        const method = req.method || 'GET';
+
+        const origin = req.headers.origin;
+        const rejection = this.checkAccess(req);
+        if (rejection) {
+            this.rejectRequest(req, res, rejection.status, rejection.reason);
+            return;
+        }
+
+        // Only echo back origins that passed the allowlist, never '*'
+        if (origin) {
+            res.setHeader('Access-Control-Allow-Origin', origin);
+            res.setHeader('Vary', 'Origin');
+        }
         res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Zotero-Version, X-Zotero-Connector-API-Version, X-Metadata, Authorization');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Zotero-Version, X-Zotero-Connector-API-Version, X-Metadata, Authorization, X-BibLib-Token');
         res.setHeader('Access-Control-Expose-Headers', 'X-Zotero-Version');
 
         if (req.method === 'OPTIONS') {
@@ -143,17 +341,20 @@ export class ConnectorServer {
             return;
         }
 
-        const parsedUrl = url.parse(req.url || '', true);
-        const pathname = parsedUrl.pathname || '';
-        const method = req.method || 'GET';
-
         res.setHeader('X-Zotero-Version', ZOTERO_APP_NAME + ' ' + CONNECTOR_SERVER_VERSION);
 
 
         try {
             if (pathname.startsWith('/connector/')) {
                 const endpoint = pathname.substring('/connector/'.length);
-                await this.routeConnectorApi(endpoint, req, res);
+                const proxy = this.getProxy();
+                if (proxy && PROXIED_ENDPOINTS.includes(endpoint)) {
+                    await this.handleProxiedRequest(proxy, endpoint, req, res);
+                } else {
+                    await this.routeConnectorApi(endpoint, req, res);
+                }
+            } else if (pathname.startsWith('/biblib/') && this.settings.zoteroConnectorApiEnabled) {
+                await this.routeBiblibApi(pathname.substring('/biblib/'.length), req, res);
             } else if (pathname === '/') {
                  this.sendResponse(res, 200, { message: 'Obsidian Bibliography Connector Server Running', version: CONNECTOR_SERVER_VERSION });
             }
@@ -161,11 +362,211 @@ export class ConnectorServer {
                 this.sendResponse(res, 404, { error: 'Not Found' });
             }
         } catch (error) {
+            if (error instanceof RequestTooLargeError) {
+                this.rejectRequest(req, res, HTTP_STATUS.PAYLOAD_TOO_LARGE, error.message);
+                return;
+            }
             console.error(`Connector Server: Error handling ${method} ${pathname}:`, error);
             this.sendResponse(res, 500, { error: 'Internal Server Error', details: error.message });
         }
     }
 
+    /**
+     * Decide whether a request may be served. Web pages are refused by origin,
+     * other local clients by the access token when one is required, and
+     * oversized requests by their declared length.
+     *
+     * The REST API always asks for the token, as it can create notes and read
+     * the whole library. When the token is required, every other non-connector
+     * route asks for it too, whatever the origin. The browser extension cannot
+     * send the token, so connector routes let extension origins through without
+     * it; any local process can claim such an origin, so there the token only
+     * keeps out honest clients.
+     * @returns The rejection, or null when the request is allowed
+     */
+    private checkAccess(req: http.IncomingMessage): { status: number, reason: string } | null {
+        // Guard against DNS rebinding: the Host header must name the loopback interface
+        const host = (req.headers.host || '').replace(/:\d+$/, '').replace(/^\[|\]$/g, '');
+        if (host && host !== 'localhost' && !(LOOPBACK_ADDRESSES as readonly string[]).includes(host)) {
+            return { status: HTTP_STATUS.FORBIDDEN, reason: `Host '${host}' is not allowed` };
+        }
+
+        const origin = req.headers.origin;
+        const isExtension = !!origin && CONNECTOR_EXTENSION_ORIGIN_PREFIXES.some(prefix => origin.startsWith(prefix));
+        const allowedOrigins = (this.settings.zoteroConnectorAllowedOrigins || []).map(o => o.trim().replace(/\/$/, ''));
+
+        // Browsers always send Origin on cross-origin requests, so this refuses web pages
+        if (origin && !isExtension && !allowedOrigins.includes(origin)) {
+            return { status: HTTP_STATUS.FORBIDDEN, reason: `Origin '${origin}' is not allowed` };
+        }
+
+        // Clients must present the shared secret on the API, and elsewhere when required,
+        // except the browser extension on connector routes
+        const pathname = url.parse(req.url || '').pathname || '';
+        const isExtensionConnectorRequest = isExtension && pathname.startsWith('/connector/');
+        const requireToken = pathname.startsWith('/biblib/')
+            || (this.settings.zoteroConnectorRequireToken && !isExtensionConnectorRequest);
+        if (requireToken && req.method !== 'OPTIONS') {
+            const expected = this.settings.zoteroConnectorToken;
+            const authorization = req.headers.authorization || '';
+            const provided = (req.headers[CONNECTOR_TOKEN_HEADER] as string | undefined)
+                || (authorization.startsWith('Bearer ') ? authorization.substring('Bearer '.length) : '');
+            if (!expected || !provided || !this.tokensMatch(provided, expected)) {
+                return { status: HTTP_STATUS.UNAUTHORIZED, reason: 'Missing or invalid access token' };
+            }
+        }
+
+        // Attachment uploads are size-checked by their handler, which records the rejection in the session
+        const declaredLength = Number(req.headers['content-length'] || 0);
+        if (!this.isAttachmentUpload(req) && declaredLength > MAX_REQUEST_BODY_SIZE) {
+            return { status: HTTP_STATUS.PAYLOAD_TOO_LARGE, reason: `Request of ${declaredLength} bytes exceeds the size limit` };
+        }
+
+        return null;
+    }
+
+    /**
+     * Compare tokens in constant time
+     */
+    private tokensMatch(provided: string, expected: string): boolean {
+        const a = Buffer.from(provided);
+        const b = Buffer.from(expected);
+        return a.length === b.length && crypto.timingSafeEqual(a, b);
+    }
+
+    private isAttachmentUpload(req: http.IncomingMessage): boolean {
+        const pathname = url.parse(req.url || '').pathname || '';
+        return pathname === '/connector/saveAttachment' || pathname === '/connector/saveStandaloneAttachment';
+    }
+
+    /**
+     * Largest attachment accepted, from the settings in MB, falling back to LIMITS.MAX_FILE_SIZE
+     */
+    private getMaxAttachmentSize(): number {
+        const megabytes = Number(this.settings.zoteroConnectorMaxAttachmentSize);
+        return megabytes > 0 ? megabytes * 1024 * 1024 : LIMITS.MAX_FILE_SIZE;
+    }
+
+    /**
+     * Check a MIME type against the allowlist, which may contain 'type/*' wildcards
+     */
+    private isMimeTypeAllowed(mimeType: string): boolean {
+        const allowed = this.settings.zoteroConnectorAllowedMimeTypes?.length
+            ? this.settings.zoteroConnectorAllowedMimeTypes
+            : [...DEFAULT_ATTACHMENT_MIME_TYPES];
+        const type = mimeType.split(';')[0].trim().toLowerCase();
+
+        return allowed.some(entry => {
+            const pattern = entry.trim().toLowerCase();
+            return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+        });
+    }
+
+    private formatSize(bytes: number): string {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
+    /**
+     * Refuse a request and log why, so blocked clients can be diagnosed
+     */
+    private rejectRequest(req: http.IncomingMessage, res: http.ServerResponse, status: number, reason: string): void {
+        console.warn(`Connector Server: Rejected ${req.method || 'GET'} ${req.url || ''} from origin '${req.headers.origin || 'none'}' (${req.socket.remoteAddress || 'unknown'}): ${reason}`);
+        this.sendResponse(res, status, { error: reason });
+        // Stop reading an oversized or unwanted body, unless Zotero still needs it
+        if (!req.complete && !this.requestBodies.has(req)) req.destroy();
+    }
+
+    /**
+     * Proxy to the upstream Zotero, when proxy mode is on and points somewhere other than this server
+     */
+    private getProxy(): ConnectorProxy | null {
+        if (!this.settings.zoteroConnectorProxyEnabled) return null;
+
+        const port = Number(this.settings.zoteroConnectorProxyPort);
+        if (!Number.isInteger(port) || port < 1 || port > 65535 || port === this.getPort()) return null;
+        return new ConnectorProxy(LOCALHOST, port);
+    }
+
+    /**
+     * Handle a request locally while sending the same body to the upstream Zotero,
+     * then answer the connector with a response that combines both
+     */
+    private async handleProxiedRequest(proxy: ConnectorProxy, endpoint: string, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        // Split the body so the local handler and Zotero each read all of it
+        const localBody = new stream.PassThrough();
+        const upstreamBody = new stream.PassThrough();
+        req.pipe(localBody);
+        req.pipe(upstreamBody);
+        // A local handler that gives up on the body must not hold up the upload to Zotero
+        localBody.on('close', () => req.unpipe(localBody));
+        this.requestBodies.set(req, localBody);
+
+        const captured: CapturedResponse = {};
+        this.capturedResponses.set(res, captured);
+
+        const upstreamResponse = proxy.forward(req, upstreamBody);
+        try {
+            await this.routeConnectorApi(endpoint, req, res);
+        } catch (error) {
+            if (error instanceof RequestTooLargeError) {
+                this.rejectRequest(req, res, HTTP_STATUS.PAYLOAD_TOO_LARGE, error.message);
+            } else {
+                console.error(`Connector Server: Error handling ${req.method} /connector/${endpoint}:`, error);
+                this.sendResponse(res, 500, { error: 'Internal Server Error', details: error.message });
+            }
+        } finally {
+            // Drain whatever the local handler did not read, so Zotero still gets the whole body
+            localBody.resume();
+        }
+
+        const upstream = await upstreamResponse;
+        this.capturedResponses.delete(res);
+        this.requestBodies.delete(req);
+
+        if (!upstream) {
+            // Pings arrive whether or not anything is saved, so only failed saves are reported
+            if (endpoint !== 'ping') this.warnUpstreamUnreachable(proxy);
+        } else if (upstream.statusCode >= 400) {
+            console.warn(`Connector proxy: Zotero answered ${endpoint} with ${upstream.statusCode}: ${upstream.body.toString('utf-8')}`);
+        }
+
+        this.sendCombinedResponse(res, captured, upstream);
+    }
+
+    /**
+     * Answer with the local response when the item was saved in Obsidian, or with
+     * Zotero's when only Zotero saved it, so the connector reports success either way
+     */
+    private sendCombinedResponse(res: http.ServerResponse, local: CapturedResponse, upstream: UpstreamResponse | null): void {
+        const localStatus = local.statusCode ?? 500;
+        const localSucceeded = localStatus >= 200 && localStatus < 300;
+        const upstreamSucceeded = !!upstream && upstream.statusCode >= 200 && upstream.statusCode < 300;
+
+        if (!localSucceeded && upstream && upstreamSucceeded) {
+            if (res.headersSent) return;
+            const contentType = upstream.headers['content-type'];
+            if (contentType) res.setHeader('Content-Type', contentType);
+            res.writeHead(upstream.statusCode);
+            res.end(upstream.body);
+            return;
+        }
+
+        this.sendResponse(res, localStatus, local.statusCode === undefined ? { error: 'No response' } : local.body);
+    }
+
+    private warnUpstreamUnreachable(proxy: ConnectorProxy): void {
+        if (Date.now() - this.lastUpstreamWarning < UPSTREAM_WARNING_INTERVAL) return;
+        this.lastUpstreamWarning = Date.now();
+        new Notice(`Could not reach Zotero at ${proxy.getTarget()}. The item was only saved in Obsidian.`, NOTICE_DURATION_LONG);
+    }
+
+    /**
+     * Body of a request, read from the local copy when the request is also forwarded to Zotero
+     */
+    private getRequestBody(req: http.IncomingMessage): stream.Readable {
+        return this.requestBodies.get(req) || req;
+    }
+
     private async routeConnectorApi(endpoint: string, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
         const method = req.method || 'GET';
 
@@ -201,11 +602,11 @@ export class ConnectorServer {
                  else this.sendMethodNotAllowed(res, endpoint);
                  break;
              case 'hasAttachmentResolvers':
-                 if (method === 'POST') this.handleHasAttachmentResolvers(req, res);
+                 if (method === 'POST') await this.handleHasAttachmentResolvers(req, res);
                  else this.sendMethodNotAllowed(res, endpoint);
                  break;
              case 'saveAttachmentFromResolver':
-                 if (method === 'POST') this.handleSaveAttachmentFromResolver(req, res);
+                 if (method === 'POST') await this.handleSaveAttachmentFromResolver(req, res);
                  else this.sendMethodNotAllowed(res, endpoint);
                  break;
             // Translator Endpoint Handling
@@ -214,12 +615,18 @@ export class ConnectorServer {
                  this.sendResponse(res, 200, []);
                  break;
             // Other Endpoints
-            case 'delaySync':
             case 'updateSession':
+                 if (method === 'POST') await this.handleUpdateSession(req, res);
+                 else this.sendMethodNotAllowed(res, endpoint);
+                 break;
+            case 'delaySync':
                  this.sendResponse(res, 200, { status: 'acknowledged' });
                  break;
-            case 'installStyle':
             case 'import':
+                if (method === 'POST') await this.handleImport(req, res);
+                else this.sendMethodNotAllowed(res, endpoint);
+                break;
+            case 'installStyle':
             case 'getClientHostnames':
             case 'proxies':
                 this.handleNotImplemented(res, `Endpoint '${endpoint}' likely not needed for Obsidian`);
@@ -231,19 +638,92 @@ export class ConnectorServer {
 
     // --- Endpoint Handlers ---
 
+    /**
+     * BibLib's own REST API, for scripts and other tools that work with the library
+     */
+    private async routeBiblibApi(route: string, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const method = req.method;
+
+        if (route === 'items') {
+            if (method === 'POST') await this.handleCreateItems(req, res);
+            else this.sendMethodNotAllowed(res, route);
+        } else if (route.startsWith('items/')) {
+            if (method === 'GET') await this.handleGetItem(route.substring('items/'.length), res);
+            else this.sendMethodNotAllowed(res, route);
+        } else if (route === 'search') {
+            if (method === 'GET') await this.handleSearchItems(req, res);
+            else this.sendMethodNotAllowed(res, route);
+        } else if (route === 'bibliography.bib') {
+            if (method === 'GET') await this.handleGetBibliography(res);
+            else this.sendMethodNotAllowed(res, route);
+        } else {
+            this.sendResponse(res, 404, { error: 'Not Found' });
+        }
+    }
+
+    /**
+     * Create literature notes from CSL-JSON (one item or an array) or BibTeX,
+     * using the bulk import settings
+     */
+    private async handleCreateItems(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readRequestBody(req);
+        if (!body.trim()) { this.sendResponse(res, 400, { error: 'No content provided' }); return; }
+
+        const format = this.detectImportFormat(body, req.headers['content-type']);
+        if (format !== 'json' && format !== 'bib') {
+            this.sendResponse(res, HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE, { error: 'Unsupported format. Expected CSL-JSON or BibTeX.' });
+            return;
+        }
+
+        const result = await this.handlers.importReferences(body, format, 'BibLib API request');
+        const statusCode = result.created > 0 ? 201 : (result.skipped > 0 ? 200 : 400);
+        this.sendResponse(res, statusCode, {
+            created: result.created,
+            skipped: result.skipped,
+            items: result.notes,
+            errors: result.errors.map(error => error.entryTitle ? `${error.entryTitle}: ${error.message}` : error.message)
+        });
+    }
+
+    private async handleGetItem(encodedCitekey: string, res: http.ServerResponse): Promise<void> {
+        let citekey: string;
+        try { citekey = decodeURIComponent(encodedCitekey); } catch (e) { this.sendResponse(res, 400, { error: 'Invalid citekey' }); return; }
+
+        const item = await this.handlers.getItem(citekey);
+        if (!item) { this.sendResponse(res, 404, { error: `No literature note with citekey '${citekey}'` }); return; }
+
+        this.sendResponse(res, 200, item);
+    }
+
+    /**
+     * Search literature notes: `?q=<words>&limit=<n>`
+     */
+    private async handleSearchItems(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const query = url.parse(req.url || '', true).query;
+        const q = Array.isArray(query.q) ? query.q[0] : query.q;
+        if (!q || !q.trim()) { this.sendResponse(res, 400, { error: 'q query parameter is required' }); return; }
+
+        const requestedLimit = parseInt(String(query.limit || ''), 10);
+        const limit = requestedLimit > 0 ? Math.min(requestedLimit, API_SEARCH_MAX_LIMIT) : API_SEARCH_DEFAULT_LIMIT;
+
+        this.sendResponse(res, 200, await this.handlers.searchItems(q, limit));
+    }
+
+    /**
+     * Send the whole library as BibTeX, generated from the notes as they are now
+     */
+    private async handleGetBibliography(res: http.ServerResponse): Promise<void> {
+        const bibtex = await this.handlers.exportBibTeX();
+        this.sendText(res, 200, 'application/x-bibtex; charset=utf-8', bibtex);
+    }
+
     private async handlePing(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
         const clientVersion = req.headers['x-zotero-version'] || 'Unknown';
         const clientApiVersion = parseInt(req.headers['x-zotero-connector-api-version']?.toString() || '0', 10);
 
-
-        let body = '';
+        // The body only reports the active page, which is not used, but must still be read
         if (req.method === 'POST') {
-             body = await this.readRequestBody(req);
-             try {
-                 const payload = JSON.parse(body);
-                 if (payload.activeURL) {
-                 }
-             } catch (e) { /* ignore */ }
+            await this.readRequestBody(req);
         }
 
         if (clientApiVersion > CONNECTOR_API_VERSION_SUPPORTED) {
@@ -279,31 +759,43 @@ export class ConnectorServer {
 
         const sessionID = data.sessionID || crypto.randomUUID();
         const uri = data.uri || 'Unknown URI';
-        const primaryItem = data.items[0];
 
-        // Calculate expected attachment IDs
+        // Every item in the session becomes its own note, so give each one an ID
+        // that attachments can be matched against
+        const items: any[] = data.items.map((item: any) => ({
+            ...item,
+            id: item.id || crypto.randomUUID()
+        }));
+
+        // Calculate expected attachment IDs and remember which item each belongs to
         const expectedAttachmentIds = new Set<string>();
-        (primaryItem.attachments || []).forEach((att: any) => {
-            if (att.linkMode !== 'linked_url' && att.id) {
-                expectedAttachmentIds.add(att.id);
-            }
-        });
+        const attachmentParents: { [attachmentId: string]: string } = {};
+        for (const item of items) {
+            (item.attachments || []).forEach((att: any) => {
+                if (att.linkMode !== 'linked_url' && att.id) {
+                    expectedAttachmentIds.add(att.id);
+                    attachmentParents[att.id] = item.id;
+                }
+            });
+        }
 
         this.sessions.set(sessionID, {
             uri: uri,
-            items: [primaryItem],
+            items: items,
             startTime: Date.now(),
             attachmentStatus: {},
+            attachmentParents: attachmentParents,
+            targetFolder: this.resolveTargetFolder(data.target || this.selectedTargetId),
             initialRequestData: data,
             expectedAttachmentIds: expectedAttachmentIds,
             eventDispatched: false,
             processedSnapshots: new Set<string>(),
             processedAttachmentPaths: new Set<string>()
         });
-
+        this.journalSession(sessionID);
 
         this.sendResponse(res, 200, { sessionID: sessionID });
-        new Notice(`Receiving item from Zotero.`);
+        new Notice(items.length === 1 ? 'Receiving item from Zotero.' : `Receiving ${items.length} items from Zotero.`);
     }
 
     private async handleSaveSnapshot(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
@@ -345,14 +837,17 @@ export class ConnectorServer {
             items: [item],
             startTime: Date.now(),
             attachmentStatus: {
-                [tempSnapshotId]: { progress: 0 }
+                [tempSnapshotId]: { progress: 0, parentItemID: item.id }
             },
+            attachmentParents: { [tempSnapshotId]: item.id },
+            targetFolder: this.resolveTargetFolder(data.target || this.selectedTargetId),
             initialRequestData: data,
             expectedAttachmentIds: expectedAttachmentIds,
             eventDispatched: false,
             processedSnapshots: new Set<string>(),
             processedAttachmentPaths: new Set<string>()
         });
+        this.journalSession(sessionID);
 
         this.sendResponse(res, 200, { sessionID: sessionID });
         new Notice(`Receiving snapshot for ${title}.`);
@@ -378,10 +873,9 @@ export class ConnectorServer {
         const attachmentId = metadata.id || crypto.randomUUID();
         const title = metadata.title || 'Attachment';
         const sourceUrlForFilename = metadata.url || session.uri;
+        const parentItem = this.findParentItem(session, attachmentId, metadata.parentItemID);
 
-        // Generate filename and path
         const filename = this.generateFilename(title, contentType, sourceUrlForFilename);
-        const filePath = path.join(this.tempDir, filename);
 
         // IMPROVED: Multiple checks for duplicate attachments
 
@@ -389,41 +883,16 @@ export class ConnectorServer {
         if (session.attachmentStatus[attachmentId]?.progress === 100 && session.attachmentStatus[attachmentId]?.localPath) {
 
             // Acknowledge with success
-            res.writeHead(201, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({
+            this.sendResponse(res, 201, {
                 status: 'success',
                 filename: path.basename(session.attachmentStatus[attachmentId].localPath!),
                 canRecognize: contentType === 'application/pdf' && isStandalone
-            }));
+            });
             return;
         }
 
-        // 2. Check for duplicate by path (if processedAttachmentPaths exists)
-        if (session.processedAttachmentPaths && session.processedAttachmentPaths.has(filePath)) {
-
-            // Find the attachment with this path
-            const existingAttachment = Object.entries(session.attachmentStatus)
-                .find(([id, status]) => status.localPath === filePath);
-
-            if (existingAttachment) {
-                // Link the new ID to the existing status
-                session.attachmentStatus[attachmentId] = session.attachmentStatus[existingAttachment[0]];
-                session.expectedAttachmentIds.add(attachmentId);
-
-                // Acknowledge with success
-                res.writeHead(201, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({
-                    status: 'success',
-                    filename: filename,
-                    canRecognize: contentType === 'application/pdf' && isStandalone
-                }));
-                return;
-            }
-        }
-
-        // 3. Check for duplicate by content (title + URL + mime type)
-        const parentItem = session.items[0];
-        if (parentItem && parentItem.attachments) {
+        // 2. Check for the same file sent again for the same item (title + source URL + mime type)
+        if (parentItem && parentItem.attachments && metadata.url) {
             const existingAttachment = parentItem.attachments.find((att: any) =>
                 att.title === title &&
                 att.url === metadata.url &&
@@ -440,12 +909,11 @@ export class ConnectorServer {
                 session.expectedAttachmentIds.add(attachmentId);
 
                 // Acknowledge with success
-                res.writeHead(201, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({
+                this.sendResponse(res, 201, {
                     status: 'success',
                     filename: filename,
                     canRecognize: contentType === 'application/pdf' && isStandalone
-                }));
+                });
                 return;
             }
         }
@@ -457,10 +925,34 @@ export class ConnectorServer {
         }
 
         // Initialize attachment status
-        session.attachmentStatus[attachmentId] = { progress: 0 };
+        session.attachmentStatus[attachmentId] = { progress: 0, parentItemID: parentItem?.id };
+
+        // Refuse disallowed types and attachments that announce a size over the limit before writing anything
+        const maxSize = this.getMaxAttachmentSize();
+        const declaredLength = Number(req.headers['content-length'] || 0);
+        let rejection: { status: number, reason: string } | null = null;
+        if (!this.isMimeTypeAllowed(contentType)) {
+            rejection = { status: HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE, reason: `Attachment type ${contentType.split(';')[0]} is not allowed` };
+        } else if (declaredLength > maxSize) {
+            rejection = { status: HTTP_STATUS.PAYLOAD_TOO_LARGE, reason: `Attachment is ${this.formatSize(declaredLength)}, over the ${this.formatSize(maxSize)} limit` };
+        }
+        if (rejection) {
+            session.attachmentStatus[attachmentId].progress = -1;
+            session.attachmentStatus[attachmentId].error = rejection.reason;
+            this.rejectRequest(req, res, rejection.status, `${title}: ${rejection.reason}`);
+            new Notice(`Zotero attachment "${title}" rejected: ${rejection.reason}`);
+            this.checkAndDispatchIfComplete(sessionID);
+            return;
+        }
+
+        // Each attachment gets a folder of its own, as Zotero titles most PDFs "Full Text PDF"
+        const filePath = this.tempFolder.createFilePath(`${sessionID}:${attachmentId}`, filename);
+        session.attachmentStatus[attachmentId].tempPath = filePath;
+        this.journalSession(sessionID);
 
         try {
-            await pipeline(req, fs.createWriteStream(filePath));
+            // Count bytes as they arrive, since Content-Length may be missing or wrong
+            await pipeline(this.getRequestBody(req), this.createSizeLimiter(maxSize, 'Attachment'), fs.createWriteStream(filePath));
 
             // Mark this attachment path as processed
             session.processedAttachmentPaths.add(filePath);
@@ -469,7 +961,6 @@ export class ConnectorServer {
             session.attachmentStatus[attachmentId].localPath = filePath;
 
             // Update item data
-            const parentItem = session.items[0];
             if (parentItem) {
                 if (!parentItem.attachments) parentItem.attachments = [];
 
@@ -480,7 +971,7 @@ export class ConnectorServer {
                     url: metadata.url,
                     localPath: filePath,
                     mimeType: contentType,
-                    parentItem: metadata.parentItemID || parentItem.id,
+                    parentItem: parentItem.id,
                     itemType: 'attachment',
                     linkMode: 'imported_file'
                 };
@@ -499,12 +990,11 @@ export class ConnectorServer {
 
             this.sessions.set(sessionID, session);
 
-            res.writeHead(201, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({
+            this.sendResponse(res, 201, {
                 status: 'success',
                 filename: filename,
                 canRecognize: contentType === 'application/pdf' && isStandalone
-            }));
+            });
 
             this.checkAndDispatchIfComplete(sessionID);
         } catch (error) {
@@ -513,7 +1003,12 @@ export class ConnectorServer {
             session.attachmentStatus[attachmentId].error = error.message;
             this.sessions.set(sessionID, session);
             fs.unlink(filePath, () => {});
-            this.sendResponse(res, 500, { error: 'Failed to save attachment' });
+            if (error instanceof RequestTooLargeError) {
+                this.rejectRequest(req, res, HTTP_STATUS.PAYLOAD_TOO_LARGE, `${title}: ${error.message}`);
+                new Notice(`Zotero attachment "${title}" rejected: ${error.message}`);
+            } else {
+                this.sendResponse(res, 500, { error: 'Failed to save attachment' });
+            }
             this.checkAndDispatchIfComplete(sessionID);
         }
     }
@@ -539,8 +1034,7 @@ export class ConnectorServer {
         if (session.processedSnapshots && session.processedSnapshots.size > 0) {
 
             // Still acknowledge the request to keep Zotero happy
-            res.writeHead(204);
-            res.end();
+            this.sendResponse(res, 204);
             return;
         }
 
@@ -549,8 +1043,7 @@ export class ConnectorServer {
         if (existingSnapshotAttachment?.id && session.attachmentStatus[existingSnapshotAttachment.id]?.progress === 100) {
 
             // Still acknowledge the request to keep Zotero happy
-            res.writeHead(204);
-            res.end();
+            this.sendResponse(res, 204);
             return;
         }
 
@@ -558,10 +1051,7 @@ export class ConnectorServer {
         const snapshotIdBase = crypto.createHash('md5').update(data.url || session.uri).digest('hex').substring(0, 10);
         const attachmentId = data.id || `html-${snapshotIdBase}`;
 
-        // Generate filename and path
         const filename = this.generateFilename(title, 'text/html', data.url || session.uri);
-        const filePath = path.join(this.tempDir, filename);
-
 
         // Find any temporary placeholder ID
         let tempSnapshotId: string | undefined;
@@ -582,7 +1072,29 @@ export class ConnectorServer {
         }
 
         // Initialize attachment status
-        session.attachmentStatus[attachmentId] = { progress: 0 };
+        session.attachmentStatus[attachmentId] = { progress: 0, parentItemID: session.items[0]?.id };
+
+        const snapshotSize = Buffer.byteLength(snapshotContent, 'utf-8');
+        const maxSize = this.getMaxAttachmentSize();
+        let rejection: { status: number, reason: string } | null = null;
+        if (!this.isMimeTypeAllowed('text/html')) {
+            rejection = { status: HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE, reason: 'Attachment type text/html is not allowed' };
+        } else if (snapshotSize > maxSize) {
+            rejection = { status: HTTP_STATUS.PAYLOAD_TOO_LARGE, reason: `Snapshot is ${this.formatSize(snapshotSize)}, over the ${this.formatSize(maxSize)} limit` };
+        }
+        if (rejection) {
+            session.attachmentStatus[attachmentId].progress = -1;
+            session.attachmentStatus[attachmentId].error = rejection.reason;
+            this.rejectRequest(req, res, rejection.status, `${title}: ${rejection.reason}`);
+            this.checkAndDispatchIfComplete(sessionID);
+            return;
+        }
+
+        // A folder per session and snapshot, so a later capture of a page with the same title
+        // never overwrites a snapshot still waiting in the inbox
+        const filePath = this.tempFolder.createFilePath(`${sessionID}:${attachmentId}`, filename);
+        session.attachmentStatus[attachmentId].tempPath = filePath;
+        this.journalSession(sessionID);
 
         try {
             await fs.promises.writeFile(filePath, snapshotContent, 'utf-8');
@@ -622,8 +1134,7 @@ export class ConnectorServer {
 
             this.sessions.set(sessionID, session);
 
-            res.writeHead(204);
-            res.end();
+            this.sendResponse(res, 204);
 
             this.checkAndDispatchIfComplete(sessionID);
         } catch (error) {
@@ -637,19 +1148,63 @@ export class ConnectorServer {
         }
     }
 
+    /**
+     * Offer the folders under the literature note folder as Zotero collections,
+     * so the connector popup can pick where a capture is filed
+     */
     private handleGetSelectedCollection(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const targets = this.getCollectionTargets();
+        const selected = targets.find(target => target.id === this.selectedTargetId) || targets[0];
+
         this.sendResponse(res, 200, {
-            id: "obsidian",
-            name: "Obsidian Vault",
+            id: selected.id,
+            name: selected.name,
             libraryID: 1,
+            libraryName: targets[0].name,
             libraryEditable: true,
             filesEditable: true,
-            targets: [
-                 { id: "obsidian", name: "Obsidian Vault", type: "library", libraryID: 1, level: 0, filesEditable: true }
-            ]
+            editable: true,
+            targets: targets.map(target => ({
+                id: target.id,
+                name: target.name,
+                level: target.level,
+                parentID: target.parentID,
+                type: target.level === 0 ? 'library' : 'collection',
+                libraryID: 1,
+                filesEditable: true
+            }))
         });
     }
 
+    /**
+     * Record the target, tags or note the user chose in the connector popup after saving
+     */
+    private async handleUpdateSession(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readRequestBody(req);
+        let data;
+        try { data = JSON.parse(body); } catch (e) { this.sendResponse(res, 400, { error: 'Invalid JSON data' }); return; }
+
+        const sessionID = data.sessionID;
+        const session = sessionID ? this.sessions.get(sessionID) : undefined;
+        if (!session) { this.sendResponse(res, 404, { error: 'Session not found or expired' }); return; }
+
+        if (data.target) {
+            this.selectedTargetId = data.target;
+            session.targetFolder = this.resolveTargetFolder(data.target);
+        }
+        if (data.tags !== undefined) {
+            session.tags = this.parsePopupTags(data.tags);
+        }
+        if (typeof data.note === 'string') {
+            session.note = data.note.trim() || undefined;
+        }
+
+        this.dispatchSessionUpdated(sessionID, session);
+        if (!session.eventDispatched) this.journalSession(sessionID);
+
+        this.sendResponse(res, 200, { status: 'acknowledged' });
+    }
+
     private async handleSessionProgress(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
         const body = await this.readRequestBody(req);
         let data;
@@ -671,6 +1226,8 @@ export class ConnectorServer {
             const attachmentProgressList: any[] = [];
 
             for (const expectedId of session.expectedAttachmentIds) {
+                if (this.getAttachmentParentId(session, expectedId) !== item.id) continue;
+
                 const status = session.attachmentStatus[expectedId];
                 const initialAttachment = (item.attachments || []).find((att:any) => att.id === expectedId);
                 attachmentProgressList.push({
@@ -697,25 +1254,209 @@ export class ConnectorServer {
         }
     }
 
-    private handleHasAttachmentResolvers(req: http.IncomingMessage, res: http.ServerResponse): void {
-        this.sendResponse(res, 200, false);
+    /**
+     * Import a citation file (BibTeX, RIS or CSL-JSON) the connector found on a page,
+     * e.g. a .bib link or a publisher's "download citation" button
+     */
+    private async handleImport(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readRequestBody(req);
+        if (!body.trim()) { this.sendResponse(res, 400, { error: 'No content provided' }); return; }
+
+        const format = this.detectImportFormat(body, req.headers['content-type']);
+        if (!format) { this.sendResponse(res, 400, { error: 'Unsupported citation format. Expected BibTeX, RIS or CSL-JSON.' }); return; }
+
+        try {
+            const result = await this.handlers.importReferences(body, format, 'Zotero Connector import');
+            const statusCode = result.created > 0 || result.skipped > 0 ? 201 : 500;
+            this.sendResponse(res, statusCode, {
+                created: result.created,
+                skipped: result.skipped,
+                attachmentsImported: result.attachmentsImported,
+                errors: result.errors.map(error => error.entryTitle ? `${error.entryTitle}: ${error.message}` : error.message)
+            });
+        } catch (error) {
+            console.error('Error importing citation file:', error);
+            this.sendResponse(res, 500, { error: 'Failed to import citation file' });
+        }
     }
 
-    private handleSaveAttachmentFromResolver(req: http.IncomingMessage, res: http.ServerResponse): void {
-        this.sendResponse(res, 501, { error: 'Attachment resolving not implemented' });
+    /**
+     * Work out the format of an imported citation file from its content, using
+     * the Content-Type header only as a tie-breaker
+     */
+    private detectImportFormat(content: string, contentType?: string): 'bib' | 'ris' | 'json' | null {
+        const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+        if (/^TY {2}-/m.test(trimmed)) return 'ris';
+        if (/^@\w+\s*[{(]/m.test(trimmed)) return 'bib';
+        if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+            try { JSON.parse(trimmed); return 'json'; } catch (e) { /* not JSON */ }
+        }
+
+        const type = (contentType || '').toLowerCase();
+        if (type.includes('research-info-systems')) return 'ris';
+        if (type.includes('bibtex')) return 'bib';
+        return null;
+    }
+
+    /**
+     * Tell the connector whether an open-access PDF can be looked up for an item:
+     * resolving is on, the item has a DOI and no PDF was saved with it
+     */
+    private async handleHasAttachmentResolvers(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readRequestBody(req);
+        let data;
+        try { data = JSON.parse(body); } catch (e) { this.sendResponse(res, 400, { error: 'Invalid JSON data' }); return; }
+
+        const session = this.sessions.get(data.sessionID);
+        const itemID = data.itemID;
+        const item = session?.items.find(sessionItem => sessionItem.id === itemID);
+        if (!session || !item) { this.sendResponse(res, 200, false); return; }
+
+        const hasPdf = Object.entries(session.attachmentStatus).some(([attachmentId, status]) =>
+            this.getAttachmentParentId(session, attachmentId) === item.id &&
+            status.progress !== -1 &&
+            (item.attachments || []).some((att: any) => att.id === attachmentId && att.mimeType === 'application/pdf'));
+
+        this.sendResponse(res, 200, this.attachmentResolver.isEnabled() && !hasPdf && !!this.attachmentResolver.getDoi(item));
+    }
+
+    /**
+     * Look up an open-access PDF for an item's DOI and save it to the session,
+     * with the same type and size limits as attachments sent by the connector
+     */
+    private async handleSaveAttachmentFromResolver(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readRequestBody(req);
+        let data;
+        try { data = JSON.parse(body); } catch (e) { this.sendResponse(res, 400, { error: 'Invalid JSON data' }); return; }
+
+        const sessionID = data.sessionID;
+        const session = this.sessions.get(sessionID);
+        if (!session) { this.sendResponse(res, 404, { error: 'Session not found or expired' }); return; }
+
+        const itemID = data.itemID;
+        const item = session.items.find(sessionItem => sessionItem.id === itemID);
+        if (!item) { this.sendResponse(res, 404, { error: 'Item not found in session' }); return; }
+
+        const doi = this.attachmentResolver.getDoi(item);
+        if (!this.attachmentResolver.isEnabled() || !doi) {
+            this.sendResponse(res, 400, { error: 'No attachment resolver available for this item' });
+            return;
+        }
+
+        const title = 'Full Text PDF';
+        const itemTitle = item.title || 'Untitled';
+        const attachmentId = `resolver-${item.id}`;
+        session.expectedAttachmentIds.add(attachmentId);
+        session.attachmentParents[attachmentId] = item.id;
+        session.attachmentStatus[attachmentId] = { progress: 0, parentItemID: item.id };
+        this.journalSession(sessionID);
+
+        const maxSize = this.getMaxAttachmentSize();
+        let lastError = 'No open-access PDF found';
+        let pdfUrls: string[] = [];
+        try {
+            pdfUrls = await this.attachmentResolver.findPdfUrls(doi);
+        } catch (error) {
+            console.warn(`Connector Server: Attachment resolver lookup for ${doi} failed:`, error);
+            lastError = `Resolver lookup failed: ${error.message}`;
+        }
+
+        // Try each location until one gives an acceptable file
+        for (const pdfUrl of pdfUrls) {
+            const filename = this.generateFilename(itemTitle, 'application/pdf', pdfUrl);
+            const filePath = this.tempFolder.createFilePath(`${sessionID}:${attachmentId}`, filename);
+            try {
+                const response = await this.attachmentResolver.open(pdfUrl);
+                const contentType = response.headers['content-type'] || 'application/octet-stream';
+                const declaredLength = Number(response.headers['content-length'] || 0);
+                if (!this.isMimeTypeAllowed(contentType)) {
+                    response.destroy();
+                    lastError = `Attachment type ${contentType.split(';')[0]} is not allowed`;
+                    continue;
+                }
+                if (declaredLength > maxSize) {
+                    response.destroy();
+                    lastError = `Attachment is ${this.formatSize(declaredLength)}, over the ${this.formatSize(maxSize)} limit`;
+                    continue;
+                }
+
+                session.attachmentStatus[attachmentId].tempPath = filePath;
+                await pipeline(response, this.createSizeLimiter(maxSize, 'Attachment'), fs.createWriteStream(filePath));
+
+                session.processedAttachmentPaths.add(filePath);
+                session.attachmentStatus[attachmentId].progress = 100;
+                session.attachmentStatus[attachmentId].localPath = filePath;
+
+                if (!item.attachments) item.attachments = [];
+                item.attachments.push({
+                    id: attachmentId,
+                    title: title,
+                    url: pdfUrl,
+                    localPath: filePath,
+                    mimeType: contentType.split(';')[0].trim(),
+                    parentItem: item.id,
+                    itemType: 'attachment',
+                    linkMode: 'imported_url'
+                });
+
+                this.sendResponse(res, 201, title);
+                this.checkAndDispatchIfComplete(sessionID);
+                return;
+            } catch (error) {
+                console.warn(`Connector Server: Could not download open-access PDF from ${pdfUrl}:`, error);
+                fs.unlink(filePath, () => {});
+                lastError = error.message;
+            }
+        }
+
+        session.attachmentStatus[attachmentId].progress = -1;
+        session.attachmentStatus[attachmentId].error = lastError;
+        this.sendResponse(res, 404, { error: lastError });
+        new Notice(`No open-access PDF saved for "${itemTitle}": ${lastError}`);
+        this.checkAndDispatchIfComplete(sessionID);
     }
 
     // --- Utility Methods ---
 
-    private sendResponse(res: http.ServerResponse, statusCode: number, body: any): void {
+    /**
+     * Send a JSON response, or no body when none is given. Responses to forwarded
+     * requests are held back until the upstream Zotero has answered too.
+     */
+    private sendResponse(res: http.ServerResponse, statusCode: number, body?: any): void {
+        const captured = this.capturedResponses.get(res);
+        if (captured) {
+            if (captured.statusCode === undefined) {
+                captured.statusCode = statusCode;
+                captured.body = body;
+            }
+            return;
+        }
         if (res.headersSent) {
             return;
         }
+        if (body === undefined) {
+            res.writeHead(statusCode);
+            res.end();
+            return;
+        }
         res.setHeader('Content-Type', 'application/json');
         res.writeHead(statusCode);
         res.end(JSON.stringify(body));
     }
 
+    /**
+     * Send a text response with the given content type
+     */
+    private sendText(res: http.ServerResponse, statusCode: number, contentType: string, text: string): void {
+        if (res.headersSent) {
+            return;
+        }
+        res.setHeader('Content-Type', contentType);
+        res.writeHead(statusCode);
+        res.end(text);
+    }
+
     private sendMethodNotAllowed(res: http.ServerResponse, endpoint: string): void {
         this.sendResponse(res, 405, { error: 'Method Not Allowed' });
     }
@@ -726,12 +1467,34 @@ export class ConnectorServer {
 
     private async readRequestBody(req: http.IncomingMessage): Promise<string> {
         const chunks: Buffer[] = [];
-        for await (const chunk of req) {
+        let size = 0;
+        for await (const chunk of this.getRequestBody(req)) {
+            size += chunk.length;
+            if (size > MAX_REQUEST_BODY_SIZE) {
+                throw new RequestTooLargeError(MAX_REQUEST_BODY_SIZE);
+            }
             chunks.push(Buffer.from(chunk));
         }
         return Buffer.concat(chunks).toString('utf-8');
     }
 
+    /**
+     * Pass-through stream that fails once more than `limit` bytes went through it
+     */
+    private createSizeLimiter(limit: number, subject?: string): stream.Transform {
+        let size = 0;
+        return new stream.Transform({
+            transform(chunk, encoding, callback) {
+                size += chunk.length;
+                if (size > limit) {
+                    callback(new RequestTooLargeError(limit, subject));
+                    return;
+                }
+                callback(null, chunk);
+            }
+        });
+    }
+
     private generateFilename(title: string, mimeType: string, sourceUrl?: string): string {
         const extension = mimeType.split('/')[1]?.split('+')[0] ||
                           (mimeType === 'application/pdf' ? 'pdf' :
@@ -764,13 +1527,14 @@ export class ConnectorServer {
         // Check if session is complete
         if (this.isSessionComplete(session)) {
 
-            // Get successfully processed files
-            const savedFiles = Object.values(session.attachmentStatus)
-                .filter(status => status.progress === 100 && status.localPath)
-                .map(status => status.localPath!);
+            // Dispatch one event per item, each with its own successfully processed files
+            const filesByItem = this.getCompletedFilesByItem(session);
+            for (const item of session.items) {
+                this.dispatchZoteroItemEvent(item, filesByItem.get(item.id) || [], sessionID);
+            }
 
-            // Dispatch event
-            this.dispatchZoteroItemEvent(session.items[0], savedFiles, sessionID);
+            // Journal the finished downloads; the plugin removes each item once it is saved or discarded
+            this.journalSession(sessionID);
 
             // Mark as dispatched but keep the session alive
             // This is a key change - we don't delete the session here
@@ -779,15 +1543,48 @@ export class ConnectorServer {
 
             // Set up monitoring for additional attachments
             this.monitorForAdditionalAttachments(sessionID);
+        } else {
+            this.journalSession(sessionID);
         }
     }
 
+    /**
+     * Write the state of an undispatched session to the journal
+     */
+    private journalSession(sessionID: string): void {
+        const session = this.sessions.get(sessionID);
+        // Once dispatched, the plugin removes items from the journal as they are saved
+        if (!session || session.eventDispatched) return;
+
+        const entry: ConnectorJournalSession = {
+            sessionID: sessionID,
+            uri: session.uri,
+            startTime: session.startTime,
+            captures: session.items.map(item => ({
+                item: item,
+                attachments: this.getItemAttachmentStates(session, item)
+            })),
+            partialFiles: Object.values(session.attachmentStatus)
+                .filter(status => status.progress !== 100 && status.tempPath)
+                .map(status => status.tempPath!),
+            targetFolder: session.targetFolder,
+            tags: session.tags,
+            note: session.note
+        };
+        this.journal.record(entry);
+    }
+
     /**
      * Monitor for additional attachments that might arrive late
      */
     private monitorForAdditionalAttachments(sessionID: string): void {
         let checkCount = 0;
-        let lastFileCount = 0;
+        const initialSession = this.sessions.get(sessionID);
+        const knownFiles = new Set<string>(
+            initialSession ? Object.values(initialSession.attachmentStatus)
+                .filter(status => status.progress === 100 && status.localPath)
+                .map(status => status.localPath!) : []
+        );
 
 
         const monitor = setInterval(() => {
@@ -799,19 +1596,13 @@ export class ConnectorServer {
                 return;
             }
 
-            // Get currently completed files
-            const currentFiles = Object.values(session.attachmentStatus)
-                .filter(status => status.progress === 100 && status.localPath)
-                .map(status => status.localPath!);
-
-            // Check if we have new completed files since last check
-            if (currentFiles.length > lastFileCount) {
-
-                // Dispatch additional files event
-                this.dispatchAdditionalAttachments(session.items[0].id,
-                    currentFiles.slice(lastFileCount), sessionID);
+            // Dispatch files completed since the last check to the item they belong to
+            for (const [itemId, files] of this.getCompletedFilesByItem(session)) {
+                const newFiles = files.filter(file => !knownFiles.has(file));
+                if (newFiles.length === 0) continue;
 
-                lastFileCount = currentFiles.length;
+                newFiles.forEach(file => knownFiles.add(file));
+                this.dispatchAdditionalAttachments(itemId, newFiles, sessionID);
             }
 
             // Monitor for up to 5 minutes (300 checks at 1 second each)
@@ -821,6 +1612,34 @@ export class ConnectorServer {
         }, 1000); // Check every second
     }
 
+    /**
+     * Normalise popup tags, which arrive either as an array or as one comma-separated string
+     */
+    private parsePopupTags(tags: unknown): string[] {
+        const values = Array.isArray(tags) ? tags : (typeof tags === 'string' ? tags.split(',') : []);
+        return values
+            .map(tag => (typeof tag === 'string' ? tag : tag?.tag || '').trim())
+            .filter(tag => tag);
+    }
+
+    /**
+     * Dispatch event when the popup changes a session after its items were sent
+     */
+    private dispatchSessionUpdated(sessionID: string, session: SessionData): void {
+        if (typeof document === 'undefined') return;
+
+        const event = new CustomEvent('zotero-session-updated', {
+            detail: {
+                sessionID: sessionID,
+                itemIds: session.items.map(item => item.id),
+                targetFolder: session.targetFolder,
+                tags: session.tags,
+                note: session.note
+            }
+        });
+        document.dispatchEvent(event);
+    }
+
     /**
      * Dispatch event for additional attachments
      */
@@ -855,12 +1674,112 @@ export class ConnectorServer {
             detail: {
                 item: JSON.parse(JSON.stringify(currentItemState)), // Deep copy
                 files: newFiles,
-                sessionID: sessionID
+                sessionID: sessionID,
+                uri: session.uri,
+                targetFolder: session.targetFolder,
+                tags: session.tags,
+                note: session.note,
+                attachments: this.getItemAttachmentStates(session, currentItemState)
             }
         });
         document.dispatchEvent(event);
     }
 
+    /**
+     * Build the collection targets: the literature note folder as the library,
+     * and every folder below it as a collection, depth first
+     */
+    private getCollectionTargets(): CollectionTarget[] {
+        const rootPath = normalizePath(this.settings.literatureNotePath || '/');
+        const rootFolder = rootPath === '/' ? this.app.vault.getRoot() : this.app.vault.getAbstractFileByPath(rootPath);
+        const rootName = rootPath === '/' ? this.app.vault.getName() : rootPath.split('/').pop() || rootPath;
+
+        const targets: CollectionTarget[] = [{ id: 'L1', name: rootName, level: 0, path: rootPath }];
+        if (!(rootFolder instanceof TFolder)) return targets;
+
+        const addChildren = (folder: TFolder, level: number, parentID: string) => {
+            const children = folder.children
+                .filter((child): child is TFolder => child instanceof TFolder)
+                .sort((a, b) => a.name.localeCompare(b.name));
+            for (const child of children) {
+                const id = `C${crypto.createHash('sha1').update(child.path).digest('hex').substring(0, 12)}`;
+                targets.push({ id, name: child.name, level, parentID, path: child.path });
+                addChildren(child, level + 1, id);
+            }
+        };
+        addChildren(rootFolder, 1, 'L1');
+
+        return targets;
+    }
+
+    /**
+     * Vault folder for a collection target ID, or undefined for the library
+     * (the literature note folder) and unknown targets
+     */
+    private resolveTargetFolder(targetId: string | null | undefined): string | undefined {
+        if (!targetId || targetId === 'L1') return undefined;
+        return this.getCollectionTargets().find(target => target.id === targetId)?.path;
+    }
+
+    /**
+     * Find the session item an incoming attachment belongs to, using the
+     * parentItemID from its metadata or the attachment list sent with saveItems.
+     * Falls back to the first item for single-item sessions.
+     */
+    private findParentItem(session: SessionData, attachmentId: string, parentItemID?: string): any {
+        const parentId = parentItemID || session.attachmentParents[attachmentId];
+        return session.items.find(item => item.id === parentId) || session.items[0];
+    }
+
+    private getAttachmentParentId(session: SessionData, attachmentId: string): string | undefined {
+        return session.attachmentStatus[attachmentId]?.parentItemID
+            || session.attachmentParents[attachmentId]
+            || session.items[0]?.id;
+    }
+
+    /**
+     * Download state of every attachment expected for an item
+     */
+    private getItemAttachmentStates(session: SessionData, item: any): ConnectorAttachmentState[] {
+        const states: ConnectorAttachmentState[] = [];
+        for (const attachmentId of session.expectedAttachmentIds) {
+            if (this.getAttachmentParentId(session, attachmentId) !== item.id) continue;
+
+            const status = session.attachmentStatus[attachmentId];
+            const attachment = (item.attachments || []).find((att: any) => att.id === attachmentId);
+            states.push({
+                id: attachmentId,
+                title: attachment?.title,
+                progress: status?.progress ?? 0,
+                error: status?.error,
+                localPath: status?.localPath
+            });
+        }
+        return states;
+    }
+
+    /**
+     * Group the local paths of finished attachments by the item they belong to
+     */
+    private getCompletedFilesByItem(session: SessionData): Map<string, string[]> {
+        const filesByItem = new Map<string, string[]>();
+        const seenPaths = new Set<string>();
+
+        for (const [attachmentId, status] of Object.entries(session.attachmentStatus)) {
+            if (status.progress !== 100 || !status.localPath || seenPaths.has(status.localPath)) continue;
+            seenPaths.add(status.localPath);
+
+            const itemId = this.getAttachmentParentId(session, attachmentId);
+            if (!itemId) continue;
+
+            const files = filesByItem.get(itemId) || [];
+            files.push(status.localPath);
+            filesByItem.set(itemId, files);
+        }
+
+        return filesByItem;
+    }
+
     /**
      * Checks if all expected attachments have reported a final status
      */
@@ -882,17 +1801,12 @@ export class ConnectorServer {
 
     private cleanupOldSessions(): void {
         const now = Date.now();
-        let deletedCount = 0;
 
         for (const [sessionId, sessionData] of this.sessions.entries()) {
             // Only clean up sessions that have been dispatched
             if (sessionData.eventDispatched && now - sessionData.startTime > SESSION_MAX_AGE) {
                 this.sessions.delete(sessionId);
-                deletedCount++;
             }
         }
-
-        if (deletedCount > 0) {
-        }
     }
 } // End of ConnectorServer class
@@ -0,0 +1,84 @@
+import { App, normalizePath } from 'obsidian';
+import { ConnectorJournalSession } from '../types/connector';
+
+/**
+ * Records connector sessions whose items have not all been saved yet, so
+ * captures interrupted by a reload or crash can be finished on the next start.
+ * Each item is removed once its note is created, it is moved to the inbox or
+ * it is discarded, and the session with its last item.
+ */
+export class ConnectorSessionJournal {
+    private app: App;
+    private filePath: string;
+    private sessions: ConnectorJournalSession[] = [];
+    // Serialises writes so a slow write never overwrites a newer one
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(app: App, pluginDir: string) {
+        this.app = app;
+        this.filePath = normalizePath(`${pluginDir}/connector-sessions.json`);
+    }
+
+    /**
+     * Load the sessions left over from the previous run
+     */
+    public async load(): Promise<ConnectorJournalSession[]> {
+        try {
+            if (await this.app.vault.adapter.exists(this.filePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.filePath));
+                this.sessions = Array.isArray(data?.sessions) ? data.sessions : [];
+            }
+        } catch (error) {
+            console.error('Error loading connector session journal:', error);
+            this.sessions = [];
+        }
+        return this.getSessions();
+    }
+
+    public getSessions(): ConnectorJournalSession[] {
+        return [...this.sessions];
+    }
+
+    /**
+     * Record the current state of a session, replacing any earlier record of it
+     */
+    public record(session: ConnectorJournalSession): Promise<void> {
+        const index = this.sessions.findIndex(existing => existing.sessionID === session.sessionID);
+        if (index > -1) {
+            this.sessions[index] = session;
+        } else {
+            this.sessions.push(session);
+        }
+        return this.save();
+    }
+
+    public remove(sessionID: string): Promise<void> {
+        const count = this.sessions.length;
+        this.sessions = this.sessions.filter(session => session.sessionID !== sessionID);
+        return this.sessions.length !== count ? this.save() : this.writeQueue;
+    }
+
+    /**
+     * Forget one item of a session, and the session once no items are left
+     */
+    public removeCapture(sessionID: string, itemId: string): Promise<void> {
+        const session = this.sessions.find(existing => existing.sessionID === sessionID);
+        if (!session) return this.writeQueue;
+
+        session.captures = session.captures.filter(capture => (capture.item?.id || 'unknown') !== itemId);
+        return session.captures.length > 0 ? this.save() : this.remove(sessionID);
+    }
+
+    public clear(): Promise<void> {
+        this.sessions = [];
+        return this.save();
+    }
+
+    private save(): Promise<void> {
+        const data = JSON.stringify({ sessions: this.sessions }, null, 2);
+        this.writeQueue = this.writeQueue
+            .then(() => this.app.vault.adapter.write(this.filePath, data))
+            .catch(error => console.error('Error saving connector session journal:', error));
+        return this.writeQueue;
+    }
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { BibliographyPluginSettings } from '../types/settings';
+
+// Downloads go in a subfolder of their own, so cleaning never touches files
+// the user keeps in the folder chosen as "Temporary PDF folder"
+const DOWNLOADS_SUBFOLDER = 'biblib-connector';
+
+/**
+ * Outcome of a temp folder cleanup
+ */
+export interface TempCleanupResult {
+    deletedFiles: number;
+    freedBytes: number;
+}
+
+/**
+ * The folder the connector server downloads attachments into before they are
+ * imported into the vault: a subfolder of the configured folder, or of the
+ * system temp directory, that only the connector writes to. Desktop only, as
+ * it uses Node's fs.
+ */
+export class ConnectorTempFolder {
+    private dir: string;
+
+    constructor(settings: BibliographyPluginSettings) {
+        this.dir = path.join(settings.tempPdfPath || path.join(os.tmpdir(), 'obsidian-bibliography'), DOWNLOADS_SUBFOLDER);
+    }
+
+    public getPath(): string {
+        return this.dir;
+    }
+
+    /**
+     * Path for a download in a folder of its own, created if needed, so downloads
+     * with the same name, from one session or several, never share a file
+     * @param key Identifies the download, e.g. its session and attachment ID
+     */
+    public createFilePath(key: string, filename: string): string {
+        const folder = crypto.createHash('sha1').update(key).digest('hex').substring(0, 16);
+        fs.mkdirSync(path.join(this.dir, folder), { recursive: true });
+        return path.join(this.dir, folder, filename);
+    }
+
+    /**
+     * Delete downloads, and the folders they were given once those are empty
+     */
+    public deleteFiles(files: Iterable<string>): void {
+        for (const filePath of files) {
+            fs.unlink(filePath, () => {
+                const folder = path.dirname(path.resolve(filePath));
+                if (path.dirname(folder) === path.resolve(this.dir)) fs.rmdir(folder, () => {});
+            });
+        }
+    }
+
+    /**
+     * Delete the files in the folder and in the download folders inside it,
+     * skipping files that are still in use, and remove download folders left empty
+     * @param options.olderThan Only delete files last modified more than this many milliseconds ago
+     * @param options.keep Paths of files that must not be deleted
+     */
+    public async clean(options: { olderThan?: number, keep?: Iterable<string> } = {}): Promise<TempCleanupResult> {
+        const result: TempCleanupResult = { deletedFiles: 0, freedBytes: 0 };
+        const keep = new Set(Array.from(options.keep || [], file => path.resolve(file)));
+        const cutoff = options.olderThan !== undefined ? Date.now() - options.olderThan : Infinity;
+
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(this.dir);
+        } catch (error) {
+            // Nothing to clean when the folder has not been created yet
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return result;
+            throw error;
+        }
+
+        for (const name of names) {
+            const entryPath = path.resolve(this.dir, name);
+            try {
+                const stats = await fs.promises.stat(entryPath);
+                if (stats.isFile()) {
+                    await this.deleteUnused(entryPath, stats, cutoff, keep, result);
+                } else if (stats.isDirectory()) {
+                    for (const childName of await fs.promises.readdir(entryPath)) {
+                        const childPath = path.join(entryPath, childName);
+                        const childStats = await fs.promises.stat(childPath);
+                        if (childStats.isFile()) await this.deleteUnused(childPath, childStats, cutoff, keep, result);
+                    }
+                    if ((await fs.promises.readdir(entryPath)).length === 0) {
+                        await fs.promises.rmdir(entryPath);
+                    }
+                }
+            } catch (error) {
+                console.warn(`Could not clean connector temp files in ${entryPath}:`, error);
+            }
+        }
+
+        return result;
+    }
+
+    private async deleteUnused(filePath: string, stats: fs.Stats, cutoff: number, keep: Set<string>, result: TempCleanupResult): Promise<void> {
+        if (keep.has(filePath) || stats.mtimeMs > cutoff) return;
+
+        await fs.promises.unlink(filePath);
+        result.deletedFiles++;
+        result.freedBytes += stats.size;
+    }
+}
@@ -6,7 +6,13 @@ export * from './attachment-manager-service';
 export * from './template-variable-builder-service';
 export * from './citation-service';
 export * from './api/citoid';
+export * from './api/metadata-provider';
 export * from './status-bar-service';
+export * from './connector-inbox-service';
+export * from './connector-session-journal';
+export * from './snapshot-converter-service';
+export * from './page-metadata-extractor';
+export * from './lookup-cache';
 
 // Keep the original export for backward compatibility
 // This can be removed after updating all imports
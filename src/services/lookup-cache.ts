@@ -0,0 +1,103 @@
+import { App, normalizePath } from 'obsidian';
+import { LookupCacheEntry } from '../types/api';
+import { MetadataProviderId } from '../types/settings';
+
+// Oldest entries are dropped beyond this, to keep the file small
+const MAX_ENTRIES = 2000;
+
+/**
+ * Remembers the results of identifier lookups in the plugin folder, so a
+ * reference looked up before is not fetched again within the cache lifetime
+ * and can still be looked up without a network connection.
+ */
+export class LookupCache {
+    private app: App;
+    private filePath: string;
+    private entries: Map<string, LookupCacheEntry> = new Map();
+    // Serialises writes so a slow write never overwrites a newer one
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(app: App, pluginDir: string) {
+        this.app = app;
+        this.filePath = normalizePath(`${pluginDir}/lookup-cache.json`);
+    }
+
+    /**
+     * Load the cached results from disk
+     */
+    public async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath));
+            const entries: LookupCacheEntry[] = Array.isArray(data?.entries) ? data.entries : [];
+            this.entries = new Map(entries
+                .filter(entry => entry?.key && entry.csl && typeof entry.fetchedAt === 'number')
+                .map(entry => [entry.key, entry]));
+        } catch (error) {
+            console.error('Error loading lookup cache:', error);
+            this.entries = new Map();
+        }
+    }
+
+    /**
+     * Get the cached result for an identifier, however old
+     * @param key Normalized identifier, as made by LookupCache.keyFor
+     * @returns A copy of the entry, so callers can change its CSL freely
+     */
+    public get(key: string): LookupCacheEntry | undefined {
+        const entry = this.entries.get(key);
+        return entry ? JSON.parse(JSON.stringify(entry)) : undefined;
+    }
+
+    /**
+     * Get all cached results, newest first
+     */
+    public getEntries(): LookupCacheEntry[] {
+        return Array.from(this.entries.values()).sort((a, b) => b.fetchedAt - a.fetchedAt);
+    }
+
+    public async set(key: string, csl: any, provider: MetadataProviderId): Promise<void> {
+        // Re-inserting moves the key to the end, so the map stays in fetch order
+        this.entries.delete(key);
+        this.entries.set(key, { key, csl: JSON.parse(JSON.stringify(csl)), provider, fetchedAt: Date.now() });
+
+        for (const oldest of Array.from(this.entries.keys())) {
+            if (this.entries.size <= MAX_ENTRIES) break;
+            this.entries.delete(oldest);
+        }
+        await this.save();
+    }
+
+    public async remove(key: string): Promise<void> {
+        if (this.entries.delete(key)) await this.save();
+    }
+
+    public async clear(): Promise<void> {
+        this.entries.clear();
+        await this.save();
+    }
+
+    /**
+     * Whether an entry is older than the cache lifetime
+     * @param ttlDays Cache lifetime in days
+     */
+    public static isExpired(entry: LookupCacheEntry, ttlDays: number): boolean {
+        return Date.now() - entry.fetchedAt > ttlDays * 24 * 60 * 60 * 1000;
+    }
+
+    /**
+     * Cache key for an identifier. DOIs are compared case-insensitively.
+     */
+    public static keyFor(kind: string, value: string): string {
+        return `${kind}:${kind === 'doi' ? value.toLowerCase() : value}`;
+    }
+
+    private save(): Promise<void> {
+        const data = JSON.stringify({ entries: Array.from(this.entries.values()) });
+        this.writeQueue = this.writeQueue
+            .then(() => this.app.vault.adapter.write(this.filePath, data))
+            .catch(error => console.error('Error saving lookup cache:', error));
+        return this.writeQueue;
+    }
+}
@@ -1,10 +1,13 @@
-import { App, Notice, TFile, TAbstractFile, normalizePath } from 'obsidian';
+import { App, Notice, TFile, TAbstractFile, normalizePath, parseYaml } from 'obsidian';
 import { BibliographyPluginSettings } from '../types';
 import { Citation, Contributor, AdditionalField, AttachmentData, AttachmentType } from '../types/citation';
 import { ReferenceParserService, ParsedReference } from './reference-parser-service';
 import { NoteContentBuilderService } from './note-content-builder-service';
 import { AttachmentManagerService } from './attachment-manager-service';
+import { SnapshotConverterService } from './snapshot-converter-service';
+import type { StatusBarService } from './status-bar-service';
 import { CitekeyGenerator } from '../utils/citekey-generator';
+import { isbn10To13 } from '../utils/identifiers';
 
 /**
  * Input for creating a single literature note
@@ -15,6 +18,19 @@ export interface CreateNoteInput {
   additionalFields: AdditionalField[];
   attachmentData: AttachmentData[] | null;
   relatedNotePaths?: string[]; // Paths to related notes
+  annotationContent?: string; // Text added to the note body under "Notes"
+  targetFolder?: string; // Vault folder for the note and its attachments instead of the configured folders
+  overwriteExisting?: boolean; // Replace an existing note at the same path instead of failing
+  silent?: boolean; // Skip the success notice and opening the note, for callers that report themselves
+  webSnapshot?: WebSnapshot; // Page snapshot to convert to Markdown, per the snapshot setting
+}
+
+/**
+ * HTML snapshot of the web page a reference was captured from
+ */
+export interface WebSnapshot {
+  html: string;
+  url?: string; // Page URL for resolving relative links, defaults to the citation URL
 }
 
 /**
@@ -26,6 +42,15 @@ export interface CreateNoteResult {
   error?: Error;
 }
 
+/**
+ * An existing literature note that appears to describe the same reference
+ */
+export interface DuplicateMatch {
+  file: TFile;
+  frontmatter: Record<string, any>;
+  reasons: string[]; // What matched, e.g. 'DOI' or 'title, year and first author'
+}
+
 /**
  * Settings for bulk import operations
  */
@@ -44,6 +69,7 @@ export interface BulkImportResult {
   skipped: number;
   errors: { message: string, entryTitle?: string }[];
   attachmentsImported: number;
+  notes: { citekey: string, path: string }[]; // Notes created or overwritten
 }
 
 /**
@@ -55,19 +81,23 @@ export class NoteCreationService {
   private referenceParser: ReferenceParserService;
   private noteContentBuilder: NoteContentBuilderService;
   private attachmentManager: AttachmentManagerService;
+  private snapshotConverter: SnapshotConverterService = new SnapshotConverterService();
+  private statusBar?: StatusBarService; // Shows bulk import progress, when available
   
   constructor(
     app: App,
     settings: BibliographyPluginSettings,
     referenceParser: ReferenceParserService,
     noteContentBuilder: NoteContentBuilderService,
-    attachmentManager: AttachmentManagerService
+    attachmentManager: AttachmentManagerService,
+    statusBar?: StatusBarService
   ) {
     this.app = app;
     this.settings = settings;
     this.referenceParser = referenceParser;
     this.noteContentBuilder = noteContentBuilder;
     this.attachmentManager = attachmentManager;
+    this.statusBar = statusBar;
   }
   
   /**
@@ -77,7 +107,10 @@ export class NoteCreationService {
    */
   async createLiteratureNote(inputData: CreateNoteInput): Promise<CreateNoteResult> {
     try {
-      const { citation, contributors, additionalFields, attachmentData, relatedNotePaths } = inputData;
+      const {
+        citation, contributors, additionalFields, attachmentData, relatedNotePaths,
+        annotationContent, targetFolder, overwriteExisting, silent, webSnapshot
+      } = inputData;
       
       // Handle attachments if provided
       const attachmentPaths: string[] = [];
@@ -86,7 +119,7 @@ export class NoteCreationService {
           if (attachment.type !== AttachmentType.NONE) {
             let path = '';
             if (attachment.type === AttachmentType.IMPORT && attachment.file) {
-              path = await this.attachmentManager.importAttachment(attachment, citation.id) || '';
+              path = await this.attachmentManager.importAttachment(attachment, citation.id, targetFolder) || '';
             } else if (attachment.type === AttachmentType.LINK && attachment.path) {
               path = this.attachmentManager.resolveLinkedAttachmentPath(attachment) || '';
             }
@@ -99,20 +132,38 @@ export class NoteCreationService {
       }
       
       // Build note content
-      const content = await this.noteContentBuilder.buildNoteContent({
+      let content = await this.noteContentBuilder.buildNoteContent({
         citation,
         contributors,
         additionalFields,
         attachmentPaths,
         relatedNotePaths,
+        annotationContent,
         pluginSettings: this.settings
       });
       
       // Determine the note path, passing citation data
-      const notePath = this.getLiteratureNotePath(citation.id, citation);
+      const notePath = this.getLiteratureNotePath(citation.id, citation, targetFolder);
+      const existingFile = this.app.vault.getAbstractFileByPath(notePath);
+
+      // Convert the page snapshot, unless the note is going to be refused below
+      if (webSnapshot && (!(existingFile instanceof TFile) || overwriteExisting)) {
+        content += await this.buildSnapshotSection(
+          { ...webSnapshot, url: webSnapshot.url || citation.URL },
+          notePath,
+          overwriteExisting
+        );
+      }
       
       // Check if file already exists
-      const existingFile = this.app.vault.getAbstractFileByPath(notePath);
+      if (existingFile instanceof TFile && overwriteExisting) {
+        await this.app.vault.modify(existingFile, content);
+        if (!silent) new Notice(`Literature note "${citation.title}" updated at ${notePath}.`);
+        return {
+          success: true,
+          path: notePath
+        };
+      }
       if (existingFile instanceof TFile) {
         // Throw error if file exists
         new Notice(`Literature note already exists at ${notePath}.`);
@@ -137,6 +188,12 @@ export class NoteCreationService {
       
       // Create the note
       await this.app.vault.create(notePath, content);
+      if (silent) {
+        return {
+          success: true,
+          path: notePath
+        };
+      }
       new Notice(`Literature note "${citation.title}" created at ${notePath}.`);
       
       // Optionally open the newly created note
@@ -162,6 +219,313 @@ export class NoteCreationService {
     }
   }
   
+  /**
+   * Convert a page snapshot to Markdown and either return it as a body section,
+   * or write it to a sidecar note next to the literature note and return a link to it
+   * @returns Text to append to the note body, empty when conversion is off or finds nothing
+   */
+  private async buildSnapshotSection(snapshot: WebSnapshot, notePath: string, overwriteExisting?: boolean): Promise<string> {
+    const mode = this.settings.zoteroConnectorSnapshotMarkdown;
+    if (mode !== 'sidecar' && mode !== 'append') return '';
+
+    const markdown = this.snapshotConverter.convert(snapshot.html, snapshot.url);
+    if (!markdown) return '';
+
+    if (mode === 'append') {
+      return `\n## Snapshot\n\n${markdown}\n`;
+    }
+
+    const noteName = notePath.split('/').pop()?.replace(/\.md$/, '') || notePath;
+    const sidecarPath = normalizePath(notePath.replace(/\.md$/, '') + ' (snapshot).md');
+    const source = snapshot.url ? ` captured from <${snapshot.url}>` : '';
+    const sidecarContent = `Snapshot of [[${noteName}]]${source}.\n\n${markdown}\n`;
+
+    const existing = this.app.vault.getAbstractFileByPath(sidecarPath);
+    if (existing instanceof TFile) {
+      if (!overwriteExisting) {
+        new Notice(`Snapshot note already exists at ${sidecarPath}.`);
+        return `\n## Snapshot\n\n[[${sidecarPath}|Web page snapshot]]\n`;
+      }
+      await this.app.vault.modify(existing, sidecarContent);
+    } else {
+      const folderPath = sidecarPath.includes('/') ? sidecarPath.substring(0, sidecarPath.lastIndexOf('/')) : '';
+      if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+        await this.app.vault.createFolder(folderPath);
+      }
+      await this.app.vault.create(sidecarPath, sidecarContent);
+    }
+
+    return `\n## Snapshot\n\n[[${sidecarPath}|Web page snapshot]]\n`;
+  }
+
+  /**
+   * Build note creation input from CSL data, e.g. an item parsed from the Zotero Connector
+   * @param cslData CSL-JSON object
+   * @param citekey Citekey to use for the note
+   * @returns Citation, contributors and additional fields for createLiteratureNote
+   */
+  buildNoteInputFromCsl(
+    cslData: Record<string, any>,
+    citekey: string
+  ): Pick<CreateNoteInput, 'citation' | 'contributors' | 'additionalFields'> {
+    const { citation, contributors, additionalFields } = this.convertParsedReferenceToInput(
+      { cslData, sourceFormat: 'csl-json' },
+      citekey
+    );
+    return { citation, contributors, additionalFields };
+  }
+  
+  /**
+   * Find the literature note a citekey would be written to, if it already exists
+   * @param citekey Citekey of the note
+   * @param citation Citation data used by the filename template
+   * @param targetFolder Optional folder the note would be created in instead of the literature note folder
+   * @returns The existing note file, or null when the path is free
+   */
+  getExistingLiteratureNote(citekey: string, citation?: any, targetFolder?: string): TFile | null {
+    const existingFile = this.app.vault.getAbstractFileByPath(this.getLiteratureNotePath(citekey, citation, targetFolder));
+    return existingFile instanceof TFile ? existingFile : null;
+  }
+
+  /**
+   * Find a literature note by the DOI or URL in its frontmatter. A DOI given as
+   * a doi.org URL is matched against the note's DOI.
+   * @param reference DOI, URL or other URI of the reference
+   * @returns The first matching note, or null
+   */
+  findLiteratureNoteByReference(reference: string): TFile | null {
+    const doi = this.normalizeDoi(reference);
+    const url = this.normalizeUrl(reference);
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter) continue;
+
+      const tags = Array.isArray(frontmatter.tags) ? frontmatter.tags : [frontmatter.tags];
+      if (!tags.includes(this.settings.literatureNoteTag)) continue;
+
+      if (doi && typeof frontmatter.DOI === 'string' && this.normalizeDoi(frontmatter.DOI) === doi) return file;
+      if (url && typeof frontmatter.URL === 'string' && this.normalizeUrl(frontmatter.URL) === url) return file;
+    }
+    return null;
+  }
+
+  private normalizeDoi(value: string): string {
+    let text = value.trim();
+    try {
+      text = decodeURIComponent(text);
+    } catch (error) {
+      // Malformed escapes, keep the value as it is
+    }
+    const match = /(10\.\d{4,9}\/\S+)/.exec(text);
+    return match ? match[1].toLowerCase() : '';
+  }
+
+  private normalizeUrl(value: string): string {
+    return /^https?:\/\//i.test(value.trim())
+      ? value.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '').toLowerCase()
+      : '';
+  }
+
+  /**
+   * Find literature notes that describe the same reference as a new note would,
+   * matching on DOI, ISBN, URL, arXiv ID, or the normalized title, year and first author
+   * @param input Citation, contributors and additional fields of the new note
+   * @returns Matching notes with the reasons they matched, best match first
+   */
+  findDuplicateLiteratureNotes(
+    input: Pick<CreateNoteInput, 'citation' | 'contributors' | 'additionalFields'>
+  ): DuplicateMatch[] {
+    const incoming: Record<string, any> = { ...input.citation };
+    for (const field of input.additionalFields) {
+      if (field.name && incoming[field.name] === undefined) incoming[field.name] = field.value;
+    }
+    if (!Array.isArray(incoming.author) || incoming.author.length === 0) {
+      incoming.author = input.contributors
+        .filter(contributor => contributor.role === 'author')
+        .map(({ family, given, literal }) => ({ family, given, literal }));
+    }
+    const keys = this.getDuplicateKeys(incoming);
+
+    const matches: DuplicateMatch[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter) continue;
+
+      const tags = Array.isArray(frontmatter.tags) ? frontmatter.tags : [frontmatter.tags];
+      if (!tags.includes(this.settings.literatureNoteTag)) continue;
+
+      const existing = this.getDuplicateKeys(frontmatter);
+      const reasons: string[] = [];
+      if (keys.doi && keys.doi === existing.doi) reasons.push('DOI');
+      if (keys.isbns.some(isbn => existing.isbns.includes(isbn))) reasons.push('ISBN');
+      if (keys.arxiv && keys.arxiv === existing.arxiv) reasons.push('arXiv ID');
+      if (keys.url && keys.url === existing.url) reasons.push('URL');
+      if (keys.work && keys.work === existing.work) reasons.push('title, year and first author');
+
+      if (reasons.length > 0) {
+        matches.push({ file, frontmatter: { ...frontmatter }, reasons });
+      }
+    }
+
+    return matches.sort((a, b) => b.reasons.length - a.reasons.length);
+  }
+
+  /**
+   * Fill in the fields an existing literature note is missing from new citation
+   * data, and add the new tags, attachments and related notes to it. Fields the
+   * note already has are left as they are.
+   * @param file The existing literature note
+   * @param inputData The data the new note would have been created from
+   * @returns Result with the path of the updated note
+   */
+  async updateLiteratureNote(file: TFile, inputData: CreateNoteInput): Promise<CreateNoteResult> {
+    try {
+      const existingFrontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      const citekey: string = existingFrontmatter?.id || inputData.citation.id;
+
+      const attachmentPaths: string[] = [];
+      for (const attachment of inputData.attachmentData || []) {
+        let path = '';
+        if (attachment.type === AttachmentType.IMPORT && attachment.file) {
+          path = await this.attachmentManager.importAttachment(attachment, citekey, inputData.targetFolder) || '';
+        } else if (attachment.type === AttachmentType.LINK && attachment.path) {
+          path = this.attachmentManager.resolveLinkedAttachmentPath(attachment) || '';
+        }
+        if (path) attachmentPaths.push(path);
+      }
+
+      // Render the note the new data would produce, so the configured templates apply
+      const content = await this.noteContentBuilder.buildNoteContent({
+        citation: { ...inputData.citation, id: citekey },
+        contributors: inputData.contributors,
+        additionalFields: inputData.additionalFields,
+        attachmentPaths,
+        relatedNotePaths: inputData.relatedNotePaths,
+        annotationContent: inputData.annotationContent,
+        pluginSettings: this.settings
+      });
+      const yamlMatch = /^---\n([\s\S]*?)\n---/.exec(content);
+      const incoming: Record<string, any> = yamlMatch ? parseYaml(yamlMatch[1]) || {} : {};
+
+      // Values that accumulate rather than being filled in once
+      const listKeys = ['tags', 'attachment', 'related'];
+
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        for (const [key, value] of Object.entries(incoming)) {
+          if (key === 'id' || listKeys.includes(key)) continue;
+          if (frontmatter[key] === undefined || frontmatter[key] === null || frontmatter[key] === '') {
+            frontmatter[key] = value;
+          }
+        }
+
+        for (const key of listKeys) {
+          const added = this.toList(incoming[key]);
+          if (added.length === 0) continue;
+          const current = this.toList(frontmatter[key]);
+          frontmatter[key] = [...current, ...added.filter(value => !current.includes(value))];
+        }
+      });
+
+      if (!inputData.silent) {
+        new Notice(`Literature note "${file.basename}" updated with the new fields.`);
+      }
+      return { success: true, path: file.path };
+    } catch (error) {
+      console.error('Error updating literature note:', error);
+      new Notice('Error updating literature note. Check console.');
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error('Unknown error updating note')
+      };
+    }
+  }
+
+  /**
+   * Get a citekey that no literature note uses yet, appending a, b, c... to the given one
+   * @param citekey Preferred citekey
+   * @param citation Citation data used by the filename template
+   * @param targetFolder Optional folder the note would be created in
+   * @returns A free citekey, or null when all suffixes are taken
+   */
+  getUniqueCitekey(citekey: string, citation?: any, targetFolder?: string): string | null {
+    const usedKeys = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const id = this.app.metadataCache.getFileCache(file)?.frontmatter?.id;
+      if (id) usedKeys.add(String(id));
+    }
+
+    const isFree = (candidate: string) => !usedKeys.has(candidate) &&
+      !this.getExistingLiteratureNote(candidate, { ...citation, id: candidate }, targetFolder);
+
+    if (isFree(citekey)) return citekey;
+    for (let i = 0; i < 26; i++) {
+      const candidate = `${citekey}${String.fromCharCode(97 + i)}`;
+      if (isFree(candidate)) return candidate;
+    }
+    return null;
+  }
+
+  /**
+   * Normalized identifiers used to recognise the same reference in different notes
+   */
+  private getDuplicateKeys(data: Record<string, any>): { doi: string, isbns: string[], url: string, arxiv: string, work: string } {
+    const text = (value: any) => typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+
+    const doi = this.normalizeDoi(text(data.DOI));
+    const url = this.normalizeUrl(text(data.URL));
+    const isbns = text(data.ISBN)
+      .split(/[,;]|\s(?=\d)/)
+      .map(isbn => this.normalizeIsbn(isbn))
+      .filter(isbn => isbn);
+
+    // arXiv IDs show up in the arXiv DOI, the abstract page URL or an eprint field
+    let arxiv = '';
+    const arxivSources = [doi, text(data.URL), text(data.arxiv), text(data.arXiv), text(data.eprint)];
+    for (const source of arxivSources) {
+      const match = /(?:arxiv\.|arxiv\.org\/(?:abs|pdf)\/|^)(\d{4}\.\d{4,5}|[a-z-]+(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?/i.exec(source.trim());
+      if (match) {
+        arxiv = match[1].toLowerCase();
+        break;
+      }
+    }
+
+    // Title, year and first author together, for references without identifiers
+    let work = '';
+    const title = this.normalizeTitle(text(data.title));
+    const year = this.extractYear(data);
+    const firstAuthor = Array.isArray(data.author) ? data.author[0] : undefined;
+    const authorName = this.normalizeTitle(text(firstAuthor?.family) || text(firstAuthor?.literal));
+    if (title && year && authorName) {
+      work = `${title}|${year}|${authorName}`;
+    }
+
+    return { doi, isbns, url, arxiv, work };
+  }
+
+  /**
+   * Reduce an ISBN to its ISBN-13 digits, so ISBN-10 and ISBN-13 forms match
+   */
+  private normalizeIsbn(value: string): string {
+    const isbn = value.replace(/[^0-9Xx]/g, '').toUpperCase();
+    if (isbn.length === 13) return isbn;
+    return isbn.length === 10 ? isbn10To13(isbn) : '';
+  }
+
+  private normalizeTitle(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  private toList(value: any): any[] {
+    if (Array.isArray(value)) return value;
+    return value === undefined || value === null || value === '' ? [] : [value];
+  }
+  
   /**
    * Import references from a file
    * @param filePath Path to the file containing references
@@ -199,7 +563,8 @@ export class NoteCreationService {
         errors: [{ 
           message: `Failed to import file: ${error instanceof Error ? error.message : String(error)}` 
         }],
-        attachmentsImported: 0
+        attachmentsImported: 0,
+        notes: []
       };
     }
   }
@@ -207,7 +572,7 @@ export class NoteCreationService {
   /**
    * Import references from a string content
    * @param content The string content containing references
-   * @param fileExt File extension indicating format type ('bib' or 'json')
+   * @param fileExt File extension indicating format type ('bib', 'json' or 'ris')
    * @param sourceName Name of the source for display purposes
    * @param importSettings Settings for the import process
    * @param baseDir Optional base directory for file resolution
@@ -224,10 +589,12 @@ export class NoteCreationService {
     let skipped = 0;
     let attachmentsImported = 0;
     const errors: { message: string, entryTitle?: string }[] = [];
+    const notes: { citekey: string, path: string }[] = [];
+    const job = this.statusBar?.startJob('Importing');
     
     try {
-      if (fileExt !== 'bib' && fileExt !== 'json') {
-        throw new Error('Only .bib (BibTeX) and .json (CSL-JSON) files are supported');
+      if (fileExt !== 'bib' && fileExt !== 'json' && fileExt !== 'ris') {
+        throw new Error('Only .bib (BibTeX), .json (CSL-JSON) and .ris (RIS) content is supported');
       }
       
       if (!content.trim()) {
@@ -238,6 +605,8 @@ export class NoteCreationService {
       let parsedReferences: ParsedReference[];
       if (fileExt === 'bib') {
         parsedReferences = await this.referenceParser.parseBibTeX(content);
+      } else if (fileExt === 'ris') {
+        parsedReferences = await this.referenceParser.parseRis(content);
       } else {
         parsedReferences = await this.referenceParser.parseCslJson(content);
       }
@@ -257,6 +626,7 @@ export class NoteCreationService {
         const parsedRef = parsedReferences[i];
         const refTitle = parsedRef.cslData.title || 'Untitled';
         new Notice(`Importing reference ${i + 1} of ${totalReferences}: ${refTitle}`, 2000);
+        job?.update(i + 1, totalReferences);
         
         try {
           // Determine citekey
@@ -458,6 +828,7 @@ export class NoteCreationService {
             await this.app.vault.create(notePath, content);
           }
           created++;
+          notes.push({ citekey, path: notePath });
           
         } catch (referenceError) {
           console.error(`Error processing reference ${i + 1}:`, referenceError);
@@ -475,13 +846,15 @@ export class NoteCreationService {
         `${attachmentsImported} attachments imported.`
       );
       
-      return { created, skipped, errors, attachmentsImported };
+      return { created, skipped, errors, attachmentsImported, notes };
     } catch (error) {
       console.error('Error during bulk import:', error);
       errors.push({ 
         message: `Bulk import failed: ${error instanceof Error ? error.message : String(error)}` 
       });
-      return { created, skipped, errors, attachmentsImported };
+      return { created, skipped, errors, attachmentsImported, notes };
+    } finally {
+      job?.finish();
     }
   }
   
@@ -657,7 +1030,7 @@ export class NoteCreationService {
   /**
    * Get the full, normalized path for a literature note
    */
-  private getLiteratureNotePath(id: string, citation?: any): string {
+  private getLiteratureNotePath(id: string, citation?: any, baseFolder?: string): string {
     let fileName = '';
     
     // If using the new filename template, use it to generate the filename
@@ -730,7 +1103,7 @@ export class NoteCreationService {
     }
     
     // We need the path to be absolute, so prepend the base path
-    let basePath = normalizePath(this.settings.literatureNotePath);
+    let basePath = normalizePath(baseFolder || this.settings.literatureNotePath);
     if (basePath !== '/' && !basePath.endsWith('/')) {
       basePath += '/';
     }
@@ -0,0 +1,477 @@
+/**
+ * Bibliographic data found in a web page
+ */
+export interface PageMetadata {
+    csl: Record<string, any>; // CSL-JSON item without an id
+    pdfUrl?: string;          // Full text PDF advertised by the page
+}
+
+type MetaTags = Map<string, string[]>;
+type Fields = Record<string, any>;
+
+/**
+ * schema.org types read from JSON-LD, with the CSL type they map to
+ */
+const JSON_LD_TYPES: Record<string, string> = {
+    'ScholarlyArticle': 'article-journal',
+    'MedicalScholarlyArticle': 'article-journal',
+    'NewsArticle': 'article-newspaper',
+    'ReportageNewsArticle': 'article-newspaper',
+    'AnalysisNewsArticle': 'article-newspaper',
+    'OpinionNewsArticle': 'article-newspaper',
+    'Book': 'book',
+    'Chapter': 'chapter',
+    'Thesis': 'thesis',
+    'Report': 'report',
+    'BlogPosting': 'post-weblog',
+    'Article': 'webpage'
+};
+
+// CSL types whose container is the website itself, so the site name can stand in for it
+const WEB_TYPES = ['webpage', 'post-weblog', 'article-newspaper', 'article-magazine'];
+
+/**
+ * Builds a CSL item from the metadata embedded in a web page: Highwire
+ * `citation_*` tags, schema.org JSON-LD, COinS, Dublin Core and OpenGraph, in
+ * that order of trust. Each field is taken from the most trusted source that
+ * has it. Works on saved HTML without network access.
+ */
+export class PageMetadataExtractor {
+    /**
+     * Extract the bibliographic data of a page
+     * @param html Full HTML of the page
+     * @param url URL the page was loaded from, used for the item URL and to resolve relative links
+     * @returns The CSL item and PDF link, or null if the page has no usable metadata
+     */
+    public extract(html: string, url?: string): PageMetadata | null {
+        const doc = new DOMParser().parseFromString(html, 'text/html');
+        const base = doc.querySelector('base[href]')?.getAttribute('href') || url;
+        const meta = this.readMetaTags(doc);
+
+        const sources = [
+            this.readHighwire(meta),
+            this.readJsonLd(doc),
+            this.readCoins(doc),
+            this.readDublinCore(meta),
+            this.readOpenGraph(meta),
+            this.readDocument(doc, meta)
+        ];
+
+        const fields: Fields = {};
+        for (const source of sources) {
+            for (const [key, value] of Object.entries(source)) {
+                if (fields[key] === undefined && !this.isEmpty(value)) {
+                    fields[key] = value;
+                }
+            }
+        }
+
+        if (!fields.title) return null;
+
+        const csl: Fields = { type: fields.type || 'webpage' };
+        for (const [key, value] of Object.entries(fields)) {
+            if (!key.startsWith('_') && key !== 'type') csl[key] = value;
+        }
+
+        // The site name is only a container for pages that belong to the site
+        if (!csl['container-title'] && fields._siteName && WEB_TYPES.includes(csl.type)) {
+            csl['container-title'] = fields._siteName;
+        }
+
+        const pageUrl = this.resolveUrl(url || fields._canonicalUrl, base);
+        if (pageUrl) csl.URL = pageUrl;
+
+        return { csl, pdfUrl: this.resolveUrl(fields._pdfUrl, base) };
+    }
+
+    /**
+     * Collect meta tag values by lower-cased name or property, keeping repeated tags in order
+     */
+    private readMetaTags(doc: Document): MetaTags {
+        const tags: MetaTags = new Map();
+        doc.querySelectorAll('meta[content]').forEach(element => {
+            const name = (element.getAttribute('name') || element.getAttribute('property') || '').trim().toLowerCase();
+            const content = this.clean(element.getAttribute('content'));
+            if (!name || !content) return;
+
+            const values = tags.get(name) || [];
+            values.push(content);
+            tags.set(name, values);
+        });
+        return tags;
+    }
+
+    /**
+     * Highwire Press tags, as used by Google Scholar: `citation_title`, `citation_author`...
+     */
+    private readHighwire(meta: MetaTags): Fields {
+        const first = (name: string) => meta.get(`citation_${name}`)?.[0];
+        const all = (name: string) => meta.get(`citation_${name}`) || [];
+
+        const authorNames = all('author').length > 0
+            ? all('author')
+            : all('authors').flatMap(value => value.split(';'));
+
+        let type: string | undefined;
+        if (first('journal_title')) type = 'article-journal';
+        else if (first('conference_title')) type = 'paper-conference';
+        else if (first('dissertation_institution')) type = 'thesis';
+        else if (first('technical_report_institution')) type = 'report';
+        else if (first('inbook_title')) type = 'chapter';
+        else if (first('book_title')) type = first('title') && first('title') !== first('book_title') ? 'chapter' : 'book';
+        else if (first('isbn')) type = 'book';
+
+        const firstPage = first('firstpage');
+        const lastPage = first('lastpage');
+
+        return {
+            type,
+            title: first('title'),
+            author: this.parseNames(authorNames),
+            editor: this.parseNames(all('editor')),
+            issued: this.parseDate(first('publication_date') || first('date') || first('cover_date')
+                || first('online_date') || first('year')),
+            'container-title': first('journal_title') || first('conference_title')
+                || first('inbook_title') || (type === 'chapter' ? first('book_title') : undefined),
+            'container-title-short': first('journal_abbrev'),
+            publisher: first('publisher') || first('dissertation_institution') || first('technical_report_institution'),
+            volume: first('volume'),
+            issue: first('issue'),
+            page: firstPage && lastPage && lastPage !== firstPage ? `${firstPage}-${lastPage}` : firstPage,
+            number: first('technical_report_number'),
+            DOI: this.parseDoi(first('doi')),
+            ISBN: first('isbn'),
+            ISSN: first('issn') || first('eissn'),
+            PMID: first('pmid'),
+            abstract: first('abstract'),
+            language: first('language'),
+            keyword: this.joinKeywords(all('keywords')),
+            _pdfUrl: first('pdf_url'),
+            _canonicalUrl: first('public_url') || first('abstract_html_url')
+        };
+    }
+
+    /**
+     * schema.org JSON-LD scripts, reading the first article, book or similar node
+     */
+    private readJsonLd(doc: Document): Fields {
+        const nodes: any[] = [];
+        doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+            try {
+                this.collectJsonLdNodes(JSON.parse(script.textContent || ''), nodes);
+            } catch (error) {
+                // Pages often ship broken JSON-LD; the other sources still apply
+            }
+        });
+
+        const node = nodes.find(candidate => this.jsonLdType(candidate));
+        if (!node) return {};
+
+        const type = this.jsonLdType(node);
+        // A periodical is named on the issue, the volume or the periodical itself, nested in that order
+        const parts: any[] = [];
+        for (let part = this.firstOf(node.isPartOf); part && typeof part === 'object' && parts.length < 3; part = this.firstOf(part.isPartOf)) {
+            parts.push(part);
+        }
+        const issue = parts.find(part => this.hasType(part, 'PublicationIssue'));
+        const volume = parts.find(part => this.hasType(part, 'PublicationVolume'));
+        const container = parts.find(part => !this.hasType(part, 'PublicationIssue') && !this.hasType(part, 'PublicationVolume'));
+
+        const identifiers = [...this.toArray(node.identifier), ...this.toArray(node.sameAs)];
+        const doi = identifiers
+            .map(id => typeof id === 'object' ? (String(id?.propertyID || '').toLowerCase() === 'doi' ? id.value : id?.url) : id)
+            .map(id => this.parseDoi(typeof id === 'string' ? id : undefined))
+            .find(Boolean);
+
+        const pageStart = this.text(node.pageStart);
+        const pageEnd = this.text(node.pageEnd);
+        const pdf = this.toArray(node.encoding).concat(this.toArray(node.associatedMedia))
+            .find(media => typeof media === 'object' && /pdf/i.test(String(media?.encodingFormat || '')));
+
+        return {
+            type,
+            title: this.text(node.headline) || this.text(node.name),
+            author: this.parseJsonLdNames(node.author || node.creator),
+            editor: this.parseJsonLdNames(node.editor),
+            issued: this.parseDate(this.text(node.datePublished) || this.text(node.dateCreated)),
+            'container-title': this.text(container?.name),
+            publisher: this.text(this.firstOf(node.publisher)?.name) || this.text(node.publisher),
+            volume: this.text(volume?.volumeNumber),
+            issue: this.text(issue?.issueNumber),
+            page: this.text(node.pagination) || (pageStart && pageEnd ? `${pageStart}-${pageEnd}` : pageStart),
+            edition: this.text(node.bookEdition),
+            'number-of-pages': this.text(node.numberOfPages),
+            DOI: doi,
+            ISBN: this.text(this.firstOf(node.isbn)),
+            ISSN: this.text(this.firstOf(container?.issn)),
+            abstract: this.text(node.abstract) || this.text(node.description),
+            language: this.text(this.firstOf(node.inLanguage)?.name) || this.text(this.firstOf(node.inLanguage)),
+            keyword: this.joinKeywords(this.toArray(node.keywords).filter((keyword): keyword is string => typeof keyword === 'string')),
+            _pdfUrl: this.text(pdf?.contentUrl) || this.text(pdf?.url),
+            _canonicalUrl: this.text(node.url)
+        };
+    }
+
+    /**
+     * COinS: OpenURL ContextObjects in `<span class="Z3988" title="...">`
+     */
+    private readCoins(doc: Document): Fields {
+        const span = doc.querySelector('span.Z3988[title]');
+        if (!span) return {};
+
+        const params = new URLSearchParams(span.getAttribute('title') || '');
+        const get = (key: string) => this.clean(params.get(`rft.${key}`));
+        const format = params.get('rft_val_fmt') || '';
+        const genre = get('genre');
+
+        let type: string | undefined;
+        if (/:journal$/.test(format)) {
+            type = genre === 'proceeding' || genre === 'conference' ? 'paper-conference' : 'article-journal';
+        } else if (/:book$/.test(format)) {
+            type = genre === 'bookitem' ? 'chapter' : (genre === 'report' ? 'report' : 'book');
+        } else if (/:dissertation$/.test(format)) {
+            type = 'thesis';
+        }
+
+        const names = params.getAll('rft.au');
+        const last = get('aulast');
+        if (names.length === 0 && last) {
+            const given = get('aufirst') || get('auinit');
+            names.push(given ? `${last}, ${given}` : last);
+        }
+
+        const ids = params.getAll('rft_id');
+        const doi = ids.map(id => this.parseDoi(id)).find(Boolean);
+        const pmid = ids.map(id => /^info:pmid\/(\d+)$/.exec(id)?.[1]).find(Boolean);
+        const url = ids.find(id => /^https?:\/\//i.test(id));
+
+        const isChapterOrArticle = type === 'article-journal' || type === 'paper-conference' || type === 'chapter';
+        const startPage = get('spage');
+        const endPage = get('epage');
+
+        return {
+            type,
+            title: isChapterOrArticle ? get('atitle') : (get('btitle') || get('title')),
+            author: this.parseNames(names),
+            issued: this.parseDate(get('date')),
+            'container-title': isChapterOrArticle ? (get('jtitle') || get('btitle') || get('title')) : undefined,
+            'container-title-short': get('stitle'),
+            'collection-title': get('series'),
+            publisher: get('pub') || get('inst'),
+            'publisher-place': get('place'),
+            edition: get('edition'),
+            volume: get('volume'),
+            issue: get('issue'),
+            page: get('pages') || (startPage && endPage ? `${startPage}-${endPage}` : startPage),
+            DOI: doi,
+            ISBN: get('isbn'),
+            ISSN: get('issn') || get('eissn'),
+            PMID: pmid,
+            _canonicalUrl: url
+        };
+    }
+
+    /**
+     * Dublin Core tags, with either the `DC.` or the `DCTERMS.` prefix
+     */
+    private readDublinCore(meta: MetaTags): Fields {
+        const all = (...names: string[]) => names.flatMap(name =>
+            [...(meta.get(`dc.${name}`) || []), ...(meta.get(`dcterms.${name}`) || [])]);
+        const first = (...names: string[]) => all(...names)[0];
+
+        const identifiers = all('identifier');
+        const isbn = identifiers.map(id => /^(?:urn:)?isbn:?\s*([\dxX-]{10,17})$/i.exec(id)?.[1]).find(Boolean);
+
+        return {
+            title: first('title'),
+            author: this.parseNames(all('creator', 'creator.personalname')),
+            issued: this.parseDate(first('date.issued', 'issued', 'date', 'created')),
+            'container-title': first('ispartof', 'relation.ispartof', 'source'),
+            publisher: first('publisher'),
+            DOI: identifiers.map(id => this.parseDoi(id)).find(Boolean),
+            ISBN: isbn,
+            abstract: first('abstract', 'description'),
+            language: first('language'),
+            keyword: this.joinKeywords(all('subject'))
+        };
+    }
+
+    /**
+     * OpenGraph tags, including the `article:` and `book:` namespaces
+     */
+    private readOpenGraph(meta: MetaTags): Fields {
+        const first = (name: string) => meta.get(name)?.[0];
+        const ogType = first('og:type');
+
+        // article:author is often a profile URL rather than a name
+        const authors = [...(meta.get('article:author') || []), ...(meta.get('book:author') || [])]
+            .filter(name => !/^https?:\/\//i.test(name));
+
+        return {
+            type: ogType === 'book' ? 'book' : undefined,
+            title: first('og:title'),
+            author: this.parseNames(authors),
+            issued: this.parseDate(first('article:published_time') || first('book:release_date')),
+            ISBN: first('book:isbn'),
+            abstract: first('og:description'),
+            language: first('og:locale')?.replace('_', '-'),
+            keyword: this.joinKeywords(meta.get('article:tag') || meta.get('book:tag') || []),
+            _siteName: first('og:site_name'),
+            _canonicalUrl: first('og:url')
+        };
+    }
+
+    /**
+     * Plain HTML: `<title>`, the author and description tags and the canonical link
+     */
+    private readDocument(doc: Document, meta: MetaTags): Fields {
+        return {
+            title: this.clean(doc.querySelector('title')?.textContent),
+            author: this.parseNames(meta.get('author') || []),
+            abstract: meta.get('description')?.[0],
+            language: this.clean(doc.documentElement.getAttribute('lang')),
+            keyword: this.joinKeywords(meta.get('keywords') || []),
+            _siteName: meta.get('application-name')?.[0],
+            _canonicalUrl: doc.querySelector('link[rel="canonical"][href]')?.getAttribute('href') || undefined
+        };
+    }
+
+    private collectJsonLdNodes(value: any, nodes: any[]): void {
+        if (Array.isArray(value)) {
+            value.forEach(entry => this.collectJsonLdNodes(entry, nodes));
+        } else if (value && typeof value === 'object') {
+            nodes.push(value);
+            if (value['@graph']) this.collectJsonLdNodes(value['@graph'], nodes);
+            if (value.mainEntity) this.collectJsonLdNodes(value.mainEntity, nodes);
+        }
+    }
+
+    /**
+     * CSL type of a JSON-LD node, or undefined when it is not a kind of work we read
+     */
+    private jsonLdType(node: any): string | undefined {
+        const type = this.toArray(node?.['@type']).find(candidate => typeof candidate === 'string' && JSON_LD_TYPES[candidate]);
+        return type ? JSON_LD_TYPES[type] : undefined;
+    }
+
+    private hasType(node: any, type: string): boolean {
+        return this.toArray(node?.['@type']).includes(type);
+    }
+
+    private parseJsonLdNames(value: any): Fields[] {
+        const names: Fields[] = [];
+        for (const entry of this.toArray(value)) {
+            if (typeof entry === 'string') {
+                names.push(...this.parseNames([entry]));
+            } else if (entry && typeof entry === 'object') {
+                const family = this.text(entry.familyName);
+                const given = this.text(entry.givenName);
+                if (family) {
+                    names.push(given ? { family, given } : { family });
+                } else if (this.hasType(entry, 'Organization')) {
+                    const name = this.text(entry.name);
+                    if (name) names.push({ literal: name });
+                } else {
+                    names.push(...this.parseNames([this.text(entry.name) || '']));
+                }
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Turn "Family, Given" or "Given Family" strings into CSL names
+     */
+    private parseNames(values: string[]): Fields[] {
+        const names: Fields[] = [];
+        for (const value of values) {
+            const name = this.clean(value.replace(/^by\s+/i, ''));
+            if (!name) continue;
+
+            const comma = name.indexOf(',');
+            if (comma > 0) {
+                const family = name.slice(0, comma).trim();
+                const given = name.slice(comma + 1).trim();
+                names.push(given ? { family, given } : { family });
+                continue;
+            }
+
+            const words = name.split(' ');
+            names.push(words.length > 1
+                ? { family: words[words.length - 1], given: words.slice(0, -1).join(' ') }
+                : { literal: name });
+        }
+        return names;
+    }
+
+    /**
+     * Turn a date string into CSL date-parts, keeping only the parts the string has
+     */
+    private parseDate(value: string | undefined): Fields | undefined {
+        if (!value) return undefined;
+
+        const numeric = /^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?(?:$|[T\s])/.exec(value.trim());
+        if (numeric) {
+            const parts = numeric.slice(1).filter(Boolean).map(Number);
+            return { 'date-parts': [parts] };
+        }
+
+        const timestamp = Date.parse(value);
+        if (isNaN(timestamp)) {
+            const year = /\b(\d{4})\b/.exec(value)?.[1];
+            return year ? { 'date-parts': [[Number(year)]] } : undefined;
+        }
+
+        const date = new Date(timestamp);
+        return { 'date-parts': [[date.getFullYear(), date.getMonth() + 1, date.getDate()]] };
+    }
+
+    /**
+     * Pull a bare DOI out of `doi:`, `info:doi/` or doi.org forms
+     */
+    private parseDoi(value: string | undefined): string | undefined {
+        if (!value) return undefined;
+        const match = /(?:^|doi[:/]\s*|doi\.org\/)(10\.\d{4,9}\/\S+)/i.exec(value.trim());
+        return match ? match[1] : undefined;
+    }
+
+    private joinKeywords(values: string[]): string | undefined {
+        const keywords = values
+            .flatMap(value => value.split(/[;,]/))
+            .map(keyword => keyword.trim())
+            .filter(Boolean);
+        return keywords.length > 0 ? [...new Set(keywords)].join(', ') : undefined;
+    }
+
+    private resolveUrl(value: string | undefined, base: string | undefined): string | undefined {
+        if (!value) return undefined;
+        try {
+            return new URL(value, base).href;
+        } catch (error) {
+            return /^https?:\/\//i.test(value) ? value : undefined;
+        }
+    }
+
+    private text(value: any): string | undefined {
+        if (typeof value === 'number') return String(value);
+        return typeof value === 'string' ? this.clean(value) : undefined;
+    }
+
+    private clean(value: string | null | undefined): string | undefined {
+        const cleaned = value?.replace(/\s+/g, ' ').trim();
+        return cleaned || undefined;
+    }
+
+    private firstOf(value: any): any {
+        return Array.isArray(value) ? value[0] : value;
+    }
+
+    private toArray(value: any): any[] {
+        if (value === undefined || value === null) return [];
+        return Array.isArray(value) ? value : [value];
+    }
+
+    private isEmpty(value: any): boolean {
+        return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    }
+}
@@ -10,13 +10,13 @@ export interface ParsedReference {
     annote?: string | string[];
     // Potentially other source-specific fields
   };
-  sourceFormat: 'bibtex' | 'csl-json';
+  sourceFormat: 'bibtex' | 'csl-json' | 'ris';
   originalId?: string; // ID from the source file
   parsingErrors?: string[]; // Errors encountered for this specific entry
 }
 
 /**
- * Responsible for parsing raw input (BibTeX, CSL-JSON strings) into standardized CSL-like JavaScript objects
+ * Responsible for parsing raw input (BibTeX, CSL-JSON, RIS strings) into standardized CSL-like JavaScript objects
  */
 export class ReferenceParserService {
   private citationService: CitationService;
@@ -131,6 +131,33 @@ export class ReferenceParserService {
     }
   }
 
+  /**
+   * Parse RIS content into standardized reference objects
+   * @param risContent Raw RIS content string
+   * @returns Array of parsed references
+   */
+  async parseRis(risContent: string): Promise<ParsedReference[]> {
+    try {
+      return this.citationService.parseRis(risContent).map(cslData => {
+        // RIS notes (N1) map to CSL 'note'; keep them as annotations like BibTeX 'annote'
+        const _sourceFields: ParsedReference['_sourceFields'] = {};
+        if (typeof cslData.note === 'string' && cslData.note.trim()) {
+          _sourceFields.annote = cslData.note;
+        }
+
+        return {
+          cslData,
+          _sourceFields: Object.keys(_sourceFields).length > 0 ? _sourceFields : undefined,
+          sourceFormat: 'ris' as const,
+          parsingErrors: []
+        };
+      });
+    } catch (error) {
+      console.error('Error parsing RIS content:', error);
+      throw new Error(`Failed to parse RIS file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Parse CSL-JSON content into standardized reference objects
    * @param jsonContent Raw CSL-JSON content string
@@ -0,0 +1,137 @@
+import { htmlToMarkdown } from 'obsidian';
+
+/**
+ * Elements that never belong to the readable content of a page
+ */
+const NON_CONTENT_SELECTORS = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'canvas', 'svg',
+    'form', 'button', 'input', 'select', 'textarea',
+    'nav', 'header', 'footer', 'aside',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+    '[aria-hidden="true"]', '[hidden]'
+].join(', ');
+
+/**
+ * Containers that mark the main content, most specific first
+ */
+const MAIN_CONTENT_SELECTORS = ['[itemprop="articleBody"]', 'article', '[role="main"]', 'main'];
+
+// Below this much text a marked container is probably a teaser, so the page is scored instead
+const MIN_CONTENT_LENGTH = 200;
+
+/**
+ * Turns the HTML snapshot of a web page into Markdown, keeping only the main
+ * article content. Images become links so the note does not depend on remote files.
+ */
+export class SnapshotConverterService {
+    /**
+     * Convert a page snapshot to Markdown
+     * @param html Full HTML of the page
+     * @param baseUrl URL the page was captured from, used to resolve relative links
+     * @returns The article content as Markdown, or an empty string if none was found
+     */
+    public convert(html: string, baseUrl?: string): string {
+        const doc = new DOMParser().parseFromString(html, 'text/html');
+        const base = doc.querySelector('base[href]')?.getAttribute('href') || baseUrl;
+
+        doc.querySelectorAll(NON_CONTENT_SELECTORS).forEach(element => element.remove());
+
+        const content = this.findMainContent(doc);
+        if (!content) return '';
+
+        this.resolveLinks(content, base);
+        this.replaceImagesWithLinks(content, base);
+
+        return htmlToMarkdown(content)
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+
+    /**
+     * Pick the element holding the article: a marked container when the page has
+     * one with enough text, otherwise the block with the most paragraph text
+     */
+    private findMainContent(doc: Document): HTMLElement | null {
+        for (const selector of MAIN_CONTENT_SELECTORS) {
+            const candidates = Array.from(doc.querySelectorAll<HTMLElement>(selector));
+            const longest = candidates.sort((a, b) => this.textLength(b) - this.textLength(a))[0];
+            if (longest && this.textLength(longest) >= MIN_CONTENT_LENGTH) {
+                return longest;
+            }
+        }
+
+        // Score each block by the paragraphs it contains, giving the grandparent half credit
+        const scores = new Map<HTMLElement, number>();
+        doc.querySelectorAll('p').forEach(paragraph => {
+            const length = this.textLength(paragraph);
+            if (length < 25) return;
+
+            const parent = paragraph.parentElement;
+            if (!parent) return;
+            scores.set(parent, (scores.get(parent) || 0) + length);
+
+            const grandparent = parent.parentElement;
+            if (grandparent) {
+                scores.set(grandparent, (scores.get(grandparent) || 0) + length / 2);
+            }
+        });
+
+        let best: HTMLElement | null = null;
+        let bestScore = 0;
+        for (const [element, score] of scores) {
+            if (score > bestScore) {
+                best = element;
+                bestScore = score;
+            }
+        }
+
+        return best || doc.body;
+    }
+
+    /**
+     * Make link targets absolute and drop links that cannot be followed from a note
+     */
+    private resolveLinks(content: HTMLElement, base?: string): void {
+        content.querySelectorAll('a').forEach(anchor => {
+            const href = this.resolveUrl(anchor.getAttribute('href'), base);
+            if (href) {
+                anchor.setAttribute('href', href);
+            } else {
+                anchor.replaceWith(...Array.from(anchor.childNodes));
+            }
+        });
+    }
+
+    /**
+     * Replace each image with a link to it, labelled with its alt text
+     */
+    private replaceImagesWithLinks(content: HTMLElement, base?: string): void {
+        content.querySelectorAll('img').forEach(image => {
+            const src = this.resolveUrl(image.getAttribute('src') || image.getAttribute('data-src'), base);
+            // Inline data URIs would bloat the note, so they are dropped
+            if (!src || src.startsWith('data:')) {
+                image.remove();
+                return;
+            }
+
+            const link = image.ownerDocument.createElement('a');
+            link.setAttribute('href', src);
+            link.textContent = (image.getAttribute('alt') || '').trim() || 'Image';
+            image.replaceWith(link);
+        });
+    }
+
+    private resolveUrl(value: string | null, base?: string): string | null {
+        if (!value || value.startsWith('#') || /^javascript:/i.test(value)) return null;
+        try {
+            return new URL(value, base).href;
+        } catch (error) {
+            // Relative URL without a usable base
+            return /^[a-z][a-z0-9+.-]*:/i.test(value) ? value : null;
+        }
+    }
+
+    private textLength(element: Element): number {
+        return (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+    }
+}
@@ -1,16 +1,136 @@
-import { App, Platform } from 'obsidian';
+import { App, Menu, Platform, Plugin } from 'obsidian';
 import type { ConnectorServer } from './connector-server';
 
+/**
+ * What the status bar menu can do, and the state it reads from the plugin
+ */
+export interface StatusBarActions {
+    startServer(): Promise<void>;
+    stopServer(): Promise<void>;
+    openInbox(): Promise<void>;
+    buildBibliography(): Promise<void>;
+    getPendingCount(): number; // Captures waiting for review in the queue or the inbox
+}
+
+/**
+ * Handle for reporting the progress of a long job in the status bar
+ */
+export interface StatusBarJob {
+    update(done: number, total?: number): void;
+    finish(): void;
+}
+
+interface JobState {
+    label: string;
+    done: number;
+    total?: number;
+}
+
+// How often the connector state is read while the status bar is shown
+const REFRESH_INTERVAL = 1000;
+
+/**
+ * Shows the connector state, the number of captures waiting for review and the
+ * progress of long jobs in the status bar. Clicking it opens a menu of common actions.
+ */
 export class StatusBarService {
     private statusBarItem: HTMLElement | null = null;
     private app: App;
     private connectorServer: ConnectorServer | null = null;
+    private actions: StatusBarActions | null = null;
+    private jobs: JobState[] = [];
 
     constructor(app: App, connectorServer: ConnectorServer | null = null) {
         this.app = app;
         this.connectorServer = connectorServer;
     }
 
+    /**
+     * Create the status bar item. The status bar does not exist on mobile, so nothing is shown there.
+     */
+    public attach(plugin: Plugin, actions: StatusBarActions): void {
+        if (Platform.isMobile || this.statusBarItem) return;
+
+        this.actions = actions;
+        this.statusBarItem = plugin.addStatusBarItem();
+        this.statusBarItem.addClass('mod-clickable', 'biblib-status-bar');
+        this.statusBarItem.setAttr('data-tooltip-position', 'top');
+        plugin.registerDomEvent(this.statusBarItem, 'click', (event) => this.showMenu(event));
+
+        // Sessions start and finish inside the server without telling the plugin, so poll
+        plugin.registerInterval(window.setInterval(() => this.refresh(), REFRESH_INTERVAL));
+        plugin.register(() => this.remove());
+        this.refresh();
+    }
+
+    /**
+     * Set the connector server whose state the status bar reflects
+     */
+    public setConnectorServer(connectorServer: ConnectorServer | null): void {
+        this.connectorServer = connectorServer;
+        this.refresh();
+    }
+
+    /**
+     * Show a job in the status bar until it is finished
+     * @param label What the job does, e.g. 'Importing'
+     */
+    public startJob(label: string): StatusBarJob {
+        const job: JobState = { label, done: 0 };
+        this.jobs.push(job);
+        this.refresh();
+
+        return {
+            update: (done: number, total?: number) => {
+                job.done = done;
+                if (total !== undefined) job.total = total;
+                this.refresh();
+            },
+            finish: () => {
+                this.jobs = this.jobs.filter(other => other !== job);
+                this.refresh();
+            }
+        };
+    }
+
+    /**
+     * Redraw the status bar text from the current state
+     */
+    public refresh(): void {
+        if (!this.statusBarItem) return;
+
+        const parts: string[] = [];
+        const details: string[] = [];
+
+        if (!this.connectorServer || !this.connectorServer.isRunning()) {
+            parts.push('Connector off');
+            details.push('Zotero Connector server is stopped');
+        } else {
+            const receiving = this.connectorServer.getReceivingItemCount();
+            const port = this.connectorServer.getPort();
+            parts.push(receiving > 0
+                ? `Receiving ${receiving} ${receiving === 1 ? 'item' : 'items'}`
+                : `Connector :${port}`);
+            details.push(`Zotero Connector server listening on ${this.connectorServer.getHost()}:${port}`);
+        }
+
+        const pending = this.actions ? this.actions.getPendingCount() : 0;
+        if (pending > 0) {
+            parts.push(`${pending} pending`);
+            details.push(`${pending} ${pending === 1 ? 'capture is' : 'captures are'} waiting for review`);
+        }
+
+        // Show the most recent job; the tooltip lists all of them
+        const job = this.jobs[this.jobs.length - 1];
+        if (job) {
+            parts.push(this.formatJob(job));
+            this.jobs.forEach(other => details.push(this.formatJob(other)));
+        }
+
+        this.statusBarItem.setText(`BibLib: ${parts.join(' · ')}`);
+        this.statusBarItem.setAttr('aria-label', details.join('\n'));
+    }
+
     /**
      * Remove the status bar item
      */
@@ -20,4 +140,36 @@ export class StatusBarService {
             this.statusBarItem = null;
         }
     }
+
+    private formatJob(job: JobState): string {
+        if (job.total === undefined) return `${job.label}…`;
+        return `${job.label} ${job.done}/${job.total}`;
+    }
+
+    private showMenu(event: MouseEvent): void {
+        const actions = this.actions;
+        if (!actions) return;
+
+        const running = !!this.connectorServer && this.connectorServer.isRunning();
+        const menu = new Menu();
+
+        menu.addItem(item => item
+            .setTitle(running ? 'Stop connector server' : 'Start connector server')
+            .setIcon(running ? 'square' : 'play')
+            .onClick(() => running ? actions.stopServer() : actions.startServer()));
+
+        menu.addItem(item => item
+            .setTitle('Open connector inbox')
+            .setIcon('inbox')
+            .onClick(() => actions.openInbox()));
+
+        menu.addSeparator();
+
+        menu.addItem(item => item
+            .setTitle('Rebuild bibliography')
+            .setIcon('library')
+            .onClick(() => actions.buildBibliography()));
+
+        menu.showAtMouseEvent(event);
+    }
 }
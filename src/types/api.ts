@@ -1,3 +1,5 @@
+import { MetadataProviderId } from './settings';
+
 /**
  * Response from the Citoid API
  */
@@ -25,6 +27,27 @@ export interface CitoidResponse {
     [key: string]: any;
 }
 
+/**
+ * A date in a CrossRef work record
+ */
+export interface CrossRefDate {
+    'date-parts'?: (number | null)[][];
+}
+
+/**
+ * A contributor in a CrossRef work record
+ */
+export interface CrossRefPerson {
+    family?: string;
+    given?: string;
+    suffix?: string;
+    name?: string; // Organisations have a name instead of family/given
+    ORCID?: string; // e.g. http://orcid.org/0000-0002-1825-0097
+    'authenticated-orcid'?: boolean;
+    affiliation?: Array<{ name?: string }>;
+    sequence?: string; // 'first' or 'additional'
+}
+
 /**
  * Response from the CrossRef API
  */
@@ -32,26 +55,70 @@ export interface CrossRefResponse {
     status?: string;
     message?: {
         title?: string[];
+        subtitle?: string[];
+        'short-title'?: string[];
         type?: string;
         URL?: string;
         DOI?: string;
         'container-title'?: string[];
+        'short-container-title'?: string[];
         publisher?: string;
+        'publisher-location'?: string;
         'publisher-place'?: string;
         volume?: string | number;
         issue?: string | number;
         page?: string;
+        'article-number'?: string;
+        'edition-number'?: string;
         language?: string;
-        abstract?: string;
-        author?: Array<{
-            family?: string;
-            given?: string;
-        }>;
-        issued?: {
-            'date-parts': any[][];
-        };
+        abstract?: string; // JATS XML
+        author?: CrossRefPerson[];
+        editor?: CrossRefPerson[];
+        translator?: CrossRefPerson[];
+        issued?: CrossRefDate;
+        'published-print'?: CrossRefDate;
+        'published-online'?: CrossRefDate;
+        published?: CrossRefDate;
         ISBN?: string[];
         ISSN?: string[];
+        'issn-type'?: Array<{ value: string, type: string }>; // type is 'print' or 'electronic'
+        funder?: Array<{
+            name?: string;
+            DOI?: string;
+            award?: string[];
+        }>;
+        license?: Array<{
+            URL: string;
+            'content-version'?: string; // 'vor', 'am', 'tdm' or 'unspecified'
+        }>;
+        event?: {
+            name?: string;
+            location?: string;
+        };
+        'reference-count'?: number;
+        'references-count'?: number;
         [key: string]: any;
     };
-}
\ No newline at end of file
+}
+
+/**
+ * A literature note found by a search of the local REST API
+ */
+export interface LibrarySearchResult {
+    id: string; // Citekey
+    title?: string;
+    author?: string; // Author names joined with '; '
+    year?: number | string;
+    type?: string;
+    path: string; // Vault path of the note
+}
+
+/**
+ * A metadata lookup result kept in the lookup cache
+ */
+export interface LookupCacheEntry {
+    key: string; // Normalized identifier, e.g. 'doi:10.1038/nrn3241'
+    csl: any; // CSL-JSON item as the provider returned it, without an id
+    provider: MetadataProviderId; // Metadata provider that found it
+    fetchedAt: number; // Time of the lookup, in ms since the epoch
+}
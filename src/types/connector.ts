@@ -0,0 +1,49 @@
+/**
+ * Download state of one attachment of a connector capture
+ */
+export interface ConnectorAttachmentState {
+    id: string;
+    title?: string;
+    progress: number; // 0-100 while downloading, 100 when saved, -1 when failed
+    error?: string;
+    localPath?: string;
+}
+
+/**
+ * A captured item waiting in the connector inbox
+ */
+export interface ConnectorInboxEntry {
+    id: string; // Session ID + item ID, unique per capture
+    sessionID?: string;
+    item: any; // Raw Zotero item as sent by the browser connector
+    files: string[]; // Temp paths of downloaded attachments
+    attachments: ConnectorAttachmentState[];
+    uri: string; // Page the item was captured from
+    targetFolder?: string; // Vault folder chosen in the connector popup
+    tags?: string[]; // Tags typed in the connector popup
+    note?: string; // Note text typed in the connector popup
+    receivedAt: number;
+}
+
+/**
+ * A connector session recorded in the session journal, so captures that were
+ * still downloading when Obsidian closed can be finished on the next start
+ */
+export interface ConnectorJournalSession {
+    sessionID: string;
+    uri: string;
+    startTime: number;
+    captures: ConnectorJournalCapture[];
+    partialFiles: string[]; // Temp paths of attachments that were still being written
+    targetFolder?: string;
+    tags?: string[];
+    note?: string;
+}
+
+/**
+ * One item of a journalled session with the state of its attachments
+ */
+export interface ConnectorJournalCapture {
+    item: any; // Raw Zotero item as sent by the browser connector
+    attachments: ConnectorAttachmentState[];
+}
@@ -1,3 +1,4 @@
 export * from './settings';
 export * from './citation';
-export * from './api';
\ No newline at end of file
+export * from './api';
+export * from './connector';
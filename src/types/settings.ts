@@ -1,3 +1,5 @@
+import { DEFAULT_ATTACHMENT_MIME_TYPES } from '../constants';
+
 // --- Interface for Citekey Generation Options ---
 // Moved here from citekey-generator.ts to avoid circular dependency issues
 // and keep settings-related types together.
@@ -32,6 +34,19 @@ export interface CustomFrontmatterField {
     insertAfter?: string; // Optional: name of standard CSL field after which this custom field will be inserted (use 'start' or 'end')
 }
 
+/**
+ * Metadata sources the identifier lookup can ask
+ */
+export type MetadataProviderId = 'citoid' | 'translation-server' | 'arxiv' | 'crossref' | 'datacite' | 'pubmed' | 'openlibrary';
+
+/**
+ * A metadata source in the lookup chain, which is tried in order
+ */
+export interface MetadataProviderSetting {
+    id: MetadataProviderId;
+    enabled: boolean;
+}
+
 /**
  * Interface for favorite languages configuration
  */
@@ -81,7 +96,32 @@ export interface BibliographyPluginSettings {
         // Other settings
         literatureNoteTag: string;
         openNoteOnCreate: boolean;
+        checkForDuplicates: boolean; // Look for an existing note for the same reference before creating one
         tempPdfPath: string;
+        // Zotero connector settings
+        enableZoteroConnector: boolean;
+        zoteroConnectorPort: number;
+        zoteroConnectorHost: string; // Loopback address the server binds to
+        zoteroConnectorProxyEnabled: boolean; // Also forward captures to a Zotero desktop app on another port
+        zoteroConnectorProxyPort: number; // Port the Zotero desktop app listens on in proxy mode
+        zoteroConnectorSaveMode: 'modal' | 'vault' | 'inbox'; // Review each capture in a modal, save it straight to the vault or add it to the inbox
+        zoteroConnectorConflictResolution: 'skip' | 'overwrite' | 'suffix'; // What vault saves do when the citekey's note exists
+        zoteroConnectorAllowedOrigins: string[]; // Extra origins allowed besides browser extensions
+        zoteroConnectorRequireToken: boolean; // Require the access token outside the API too, except from browser extensions on connector routes
+        zoteroConnectorToken: string; // Shared secret sent in the X-BibLib-Token header
+        zoteroConnectorApiEnabled: boolean; // Serve the /biblib/ REST API, always behind the access token, for scripts and other tools
+        zoteroConnectorMaxAttachmentSize: number; // Largest attachment accepted from the connector, in MB
+        zoteroConnectorAllowedMimeTypes: string[]; // Attachment types accepted from the connector ('type/*' wildcards allowed)
+        zoteroConnectorResolveAttachments: boolean; // Offer to look up an open-access PDF for captures that come without one
+        zoteroConnectorResolverUrl: string; // Unpaywall-style API the DOI is looked up on
+        zoteroConnectorResolverEmail: string; // Contact address sent with lookups, required by Unpaywall
+        zoteroConnectorTempRetentionDays: number; // Unused connector temp files older than this are deleted on startup, 0 to keep them
+        zoteroConnectorSnapshotMarkdown: 'off' | 'sidecar' | 'append'; // Convert captured page snapshots to Markdown
+        zoteroConnectorImportTags: boolean; // Add the item's Zotero tags to the note's tags
+        zoteroConnectorTagPrefix: string; // Prepended to imported Zotero tags, e.g. 'zotero/'
+        zoteroConnectorTagNormalization: 'none' | 'lowercase' | 'kebab-case'; // How imported Zotero tags are rewritten
+        zoteroConnectorIncludeAutomaticTags: boolean; // Also import tags Zotero added automatically
+        zoteroConnectorImportNotes: boolean; // Add the item's Zotero child notes to the note body
         // Frontmatter field control
         standardFrontmatterFields: StandardFrontmatterField[]; // Control which CSL fields appear in frontmatter
         // Template systems
@@ -94,6 +134,14 @@ export interface BibliographyPluginSettings {
         bulkImportAnnoteToBody: boolean;
         bulkImportCitekeyPreference: 'imported' | 'generate';
         bulkImportConflictResolution: 'skip' | 'overwrite';
+        // Metadata lookup settings
+        metadataProviders: MetadataProviderSetting[]; // Sources asked in order until one knows the identifier
+        metadataProvidersVersion: number; // Revision of the default provider order the saved order has been migrated to
+        translationServerUrl: string; // Base URL of a self-hosted translation server
+        translationServerType: 'zotero' | 'citoid'; // API the self-hosted server speaks
+        crossrefMailto: string; // Contact address sent to CrossRef for its polite pool
+        lookupCacheEnabled: boolean; // Reuse earlier lookup results instead of asking the providers again
+        lookupCacheTtlDays: number; // Days before a cached result is looked up again
         // Favorite languages settings
         favoriteLanguages: FavoriteLanguage[];
         // Default modal fields configuration
@@ -119,7 +167,31 @@ export const DEFAULT_SETTINGS: BibliographyPluginSettings = {
         chapterHeaderTemplate: '# {{#pdflink}}[[{{pdflink}}|{{title}}]]{{/pdflink}}{{^pdflink}}{{title}}{{/pdflink}} (in {{container-title}})',
         literatureNoteTag: '',
         openNoteOnCreate: true,
+        checkForDuplicates: true,
         tempPdfPath: '',
+        enableZoteroConnector: false,
+        zoteroConnectorPort: 23119,
+        zoteroConnectorHost: '127.0.0.1',
+        zoteroConnectorProxyEnabled: false,
+        zoteroConnectorProxyPort: 23120,
+        zoteroConnectorSaveMode: 'modal',
+        zoteroConnectorConflictResolution: 'suffix',
+        zoteroConnectorAllowedOrigins: [],
+        zoteroConnectorRequireToken: false,
+        zoteroConnectorToken: '',
+        zoteroConnectorApiEnabled: false,
+        zoteroConnectorMaxAttachmentSize: 50,
+        zoteroConnectorAllowedMimeTypes: [...DEFAULT_ATTACHMENT_MIME_TYPES],
+        zoteroConnectorResolveAttachments: false,
+        zoteroConnectorResolverUrl: 'https://api.unpaywall.org/v2',
+        zoteroConnectorResolverEmail: '',
+        zoteroConnectorTempRetentionDays: 7,
+        zoteroConnectorSnapshotMarkdown: 'off',
+        zoteroConnectorImportTags: true,
+        zoteroConnectorTagPrefix: '',
+        zoteroConnectorTagNormalization: 'none',
+        zoteroConnectorIncludeAutomaticTags: false,
+        zoteroConnectorImportNotes: true,
         // Default standard frontmatter fields (minimal set)
         standardFrontmatterFields: [
                 { name: 'id', label: 'ID', enabled: true, alias: 'id' },
@@ -198,6 +270,23 @@ export const DEFAULT_SETTINGS: BibliographyPluginSettings = {
         bulkImportAnnoteToBody: true,
         bulkImportCitekeyPreference: 'imported',
         bulkImportConflictResolution: 'skip',
+        // Default metadata lookup: a self-hosted server is tried first once it is enabled,
+        // and CrossRef answers DOIs before Citoid so its records are mapped directly
+        metadataProviders: [
+                { id: 'translation-server', enabled: false },
+                { id: 'arxiv', enabled: true },
+                { id: 'crossref', enabled: true },
+                { id: 'citoid', enabled: true },
+                { id: 'datacite', enabled: true },
+                { id: 'pubmed', enabled: true },
+                { id: 'openlibrary', enabled: true }
+        ],
+        metadataProvidersVersion: 1,
+        translationServerUrl: '',
+        translationServerType: 'zotero',
+        crossrefMailto: '',
+        lookupCacheEnabled: true,
+        lookupCacheTtlDays: 30,
         // Default favorite languages
         favoriteLanguages: [
                 { code: 'en', name: 'English' },
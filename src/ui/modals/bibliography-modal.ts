@@ -1,15 +1,22 @@
-import { App, Modal, Notice, Setting, ButtonComponent, FuzzySuggestModal, TFile } from 'obsidian';
+import { App, Modal, Notice, Setting, ButtonComponent, FuzzySuggestModal, TFile, requestUrl } from 'obsidian';
 import { NoteSuggestModal } from './note-suggest-modal';
+import { DuplicateModal, DuplicateAction } from './duplicate-modal';
 import { BibliographyPluginSettings } from '../../types/settings';
 import { Contributor, AdditionalField, Citation, AttachmentData, AttachmentType } from '../../types/citation';
 import { ContributorField } from '../components/contributor-field';
 import { AdditionalFieldComponent } from '../components/additional-field';
 import { CitoidService } from '../../services/api/citoid';
 import { CitationService } from '../../services/citation-service';
+import { LookupCache } from '../../services/lookup-cache';
 import { CitekeyGenerator } from '../../utils/citekey-generator';
+import { IDENTIFIER_KIND_LABELS, detectIdentifier } from '../../utils/identifiers';
 import { CSL_TYPES } from '../../utils/csl-variables';
 import { 
     NoteCreationService,
+    CreateNoteInput,
+    CreateNoteResult,
+    DuplicateMatch,
+    WebSnapshot,
     TemplateVariableBuilderService,
     FrontmatterBuilderService, 
     NoteContentBuilderService,
@@ -20,7 +27,8 @@ import {
     ERROR_MESSAGES, 
     SUCCESS_MESSAGES, 
     UI_TEXT,
-    NOTICE_DURATION_SHORT 
+    NOTICE_DURATION_SHORT,
+    NOTICE_DURATION_LONG
 } from '../../constants';
 
 export class BibliographyModal extends Modal {
@@ -33,6 +41,7 @@ export class BibliographyModal extends Modal {
     protected additionalFields: AdditionalField[] = [];
     protected contributors: Contributor[] = [];
     protected relatedNotePaths: string[] = [];
+    private relatedNotesDisplayEl: HTMLElement | null = null;
     
     // Form elements for reference and updating
     private idInput: HTMLInputElement;
@@ -75,19 +84,33 @@ export class BibliographyModal extends Modal {
 
     // Track how the modal was opened
     private openedViaCommand: boolean = true;
+
+    // Called with the new note's path after the note has been created
+    public onNoteCreated: ((path: string) => void) | null = null;
+
+    // Vault folder for the note and its attachments, e.g. chosen in the Zotero Connector popup
+    public targetFolder: string | undefined;
+
+    // Tags and note text added to the created note, e.g. typed in the Zotero Connector popup
+    public additionalTags: string[] = [];
+    public annotationContent: string | undefined;
+
+    // Web page snapshot to convert to Markdown, e.g. saved by the Zotero Connector
+    public webSnapshot: WebSnapshot | undefined;
     
     constructor(
         app: App, 
         protected settings: BibliographyPluginSettings, 
-        openedViaCommand: boolean = true
+        openedViaCommand: boolean = true,
+        lookupCache?: LookupCache
     ) {
         super(app);
         
         // Initialize services
-        this.citoidService = new CitoidService();
+        this.citoidService = new CitoidService(this.settings, lookupCache);
         
         // Pass the citekey options to ensure generated citekeys respect user settings
-        this.citationService = new CitationService(this.settings.citekeyOptions);
+        this.citationService = new CitationService(this.settings.citekeyOptions, this.settings, lookupCache);
         
         
         // Set up new service layer
@@ -173,6 +196,41 @@ export class BibliographyModal extends Modal {
         }
     }
     
+    /**
+     * Offer to download and attach a PDF that the reference's web page links to.
+     * Nothing is downloaded until the notice is clicked.
+     */
+    public offerPdfAttachment(pdfUrl: string): void {
+        const hasPdf = this.attachmentData.some(attachment =>
+            /\.pdf$/i.test(attachment.filename || attachment.file?.name || attachment.path || ''));
+        if (hasPdf) return;
+
+        const notice = new Notice('The page links to a PDF of this reference. Click to attach it.', NOTICE_DURATION_LONG);
+        notice.noticeEl.addEventListener('click', async () => {
+            notice.hide();
+            try {
+                const response = await requestUrl({ url: pdfUrl, method: 'GET' });
+                const bytes = new Uint8Array(response.arrayBuffer);
+                // Publishers often answer with a login page instead of the file
+                if (String.fromCharCode(...Array.from(bytes.subarray(0, 5))) !== '%PDF-') {
+                    throw new Error('the link did not return a PDF');
+                }
+
+                const name = decodeURIComponent(new URL(pdfUrl).pathname.split('/').pop() || '');
+                const filename = /\.pdf$/i.test(name) ? name : `${this.idInput?.value || 'document'}.pdf`;
+                this.setAttachmentData({
+                    type: AttachmentType.IMPORT,
+                    file: new File([bytes], filename, { type: 'application/pdf' }),
+                    filename
+                });
+                new Notice('PDF attached');
+            } catch (error) {
+                console.error(`Error downloading PDF from ${pdfUrl}:`, error);
+                new Notice(`Could not attach the PDF: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+    }
+
     /**
      * Update the display of attachments
      */
@@ -257,13 +315,34 @@ export class BibliographyModal extends Modal {
         // Create identifier field
         const citoidIdSetting = new Setting(citoidContent)
             .setName('Auto-lookup by identifier')
-            .setDesc('DOI, ISBN, arXiv ID, URL, PubMed, PMC, Wikidata QIDs');
+            .setDesc('DOI, ISBN, ISSN, arXiv ID, URL, PubMed, PMC, Wikidata QIDs, Handles');
         
         const citoidIdInput = citoidIdSetting.controlEl.createEl('input', {
             type: 'text',
             placeholder: 'E.g., 10.1038/nrn3241, arXiv:1910.13461'
         });
         
+        // Show what the input is recognised as while typing
+        const identifierKindEl = citoidIdSetting.controlEl.createSpan({ cls: 'bibliography-identifier-kind' });
+        citoidIdInput.addEventListener('input', () => {
+            const detected = detectIdentifier(citoidIdInput.value);
+            const label = detected ? IDENTIFIER_KIND_LABELS[detected.kind] : '';
+            identifierKindEl.setText(detected?.error ? `Invalid ${label}` : label);
+            identifierKindEl.toggleClass('is-invalid', !!detected?.error);
+            identifierKindEl.setAttr('title', detected?.error || '');
+        });
+        
+        // Earlier results are reused from the lookup cache unless bypassed
+        let bypassCache = false;
+        if (this.settings.lookupCacheEnabled) {
+            new Setting(citoidContent)
+                .setName('Bypass lookup cache')
+                .setDesc('Ask the metadata providers again even if this identifier was looked up before')
+                .addToggle(toggle => toggle
+                    .setValue(false)
+                    .onChange(value => { bypassCache = value; }));
+        }
+        
         // Add lookup button
         const lookupButton = new ButtonComponent(citoidIdSetting.controlEl)
             .setButtonText(UI_TEXT.LOOKUP)
@@ -275,17 +354,31 @@ export class BibliographyModal extends Modal {
                     return;
                 }
                 
+                // Reject what cannot be an identifier before going online
+                const detected = detectIdentifier(identifier);
+                if (!detected) {
+                    new Notice(`"${identifier}" is not a DOI, ISBN, ISSN, arXiv ID, PubMed ID, PMCID, Wikidata QID, Handle or URL`);
+                    return;
+                }
+                if (detected.error) {
+                    new Notice(detected.error);
+                    return;
+                }
+                
                 // Disable button and show loading state
                 lookupButton.setDisabled(true);
                 lookupButton.setButtonText(UI_TEXT.LOADING);
                 
                 try {
-                    // Call Citoid service to get BibTeX
-                    const cslData = await this.citationService.fetchNormalized(identifier);
+                    // Web pages without a Zotero translator are read directly; other identifiers go to the metadata providers
+                    const isUrl = detected.kind === 'url';
+                    const page = isUrl ? await this.citationService.fetchWebPage(identifier, { bypassCache }) : null;
+                    const cslData = isUrl ? page?.csl : await this.citationService.fetchNormalized(identifier, { bypassCache });
                     
                     if (cslData) {
                         this.populateFormFromCitoid(cslData);
                         new Notice('Citation data loaded successfully');
+                        if (page?.pdfUrl) this.offerPdfAttachment(page.pdfUrl);
                     } else {
                         new Notice('No citation data found for this identifier');
                     }
@@ -752,6 +845,7 @@ export class BibliographyModal extends Modal {
 
         // Container to display selected notes
         const relatedNotesDisplayEl = formContainer.createDiv({ cls: 'bibliography-related-notes-display' });
+        this.relatedNotesDisplayEl = relatedNotesDisplayEl;
         this.updateRelatedNotesDisplay(relatedNotesDisplayEl); // Set initial state
 
         // Add button to trigger note selection
@@ -934,8 +1028,9 @@ export class BibliographyModal extends Modal {
                 if (cslData[role] && Array.isArray(cslData[role])) {
                     hasContributors = true;
                     cslData[role].forEach((person: any) => {
-                        // Create field in UI
-                        this.addContributorField(role, person.family, person.given, person.literal);
+                        // Create field in UI, carrying any ORCID, affiliation etc. through to the note
+                        const { family, given, literal, ...details } = person;
+                        this.addContributorField(role, family, given, literal, details);
                     });
                 }
             });
@@ -1029,13 +1124,15 @@ export class BibliographyModal extends Modal {
         role: string = 'author', 
         family: string = '', 
         given: string = '',
-        literal: string = ''
+        literal: string = '',
+        details: Record<string, any> = {}
     ): void {
         // Make sure the contributors container has the right class
         this.contributorsListContainer.addClass('bibliography-contributors');
         
         // Create contributor object
         const contributor: Contributor = {
+            ...details,
             role,
             family,
             given,
@@ -1373,34 +1470,96 @@ export class BibliographyModal extends Modal {
         return isValid;
     }
 
+    /**
+     * Add notes to the related notes, e.g. notes for items related in Zotero
+     * @param paths Vault paths of the notes
+     */
+    public addRelatedNotes(paths: string[]): void {
+        const newPaths = paths.filter(path => !this.relatedNotePaths.includes(path));
+        if (newPaths.length === 0) return;
+
+        this.relatedNotePaths.push(...newPaths);
+        if (this.relatedNotesDisplayEl) {
+            this.updateRelatedNotesDisplay(this.relatedNotesDisplayEl);
+        }
+    }
+
     /**
      * Handle form submission: create the literature note
      */
     protected async handleSubmit(citation: Citation): Promise<void> {
         try {
-            // Use the new service layer to create the note
-            const result = await this.noteCreationService.createLiteratureNote({
+            if (this.additionalTags.length > 0) {
+                citation.tags = [...new Set([...(citation.tags || []), ...this.additionalTags])];
+            }
+
+            const input: CreateNoteInput = {
                 citation,
                 contributors: this.contributors, 
                 additionalFields: this.additionalFields, 
                 attachmentData: this.attachmentData.length > 0 ? this.attachmentData : null,
-                relatedNotePaths: this.relatedNotePaths.length > 0 ? this.relatedNotePaths : undefined
-            });
+                relatedNotePaths: this.relatedNotePaths.length > 0 ? this.relatedNotePaths : undefined,
+                annotationContent: this.annotationContent,
+                targetFolder: this.targetFolder,
+                webSnapshot: this.webSnapshot
+            };
+
+            // Ask what to do when the vault already has a note for this reference
+            const matches = this.settings.checkForDuplicates
+                ? this.noteCreationService.findDuplicateLiteratureNotes(input)
+                : [];
+            let result: CreateNoteResult;
+            if (matches.length > 0) {
+                const { action, match } = await new Promise<{ action: DuplicateAction, match: DuplicateMatch }>(resolve => {
+                    new DuplicateModal(this.app, citation, this.contributors, matches,
+                        (action, match) => resolve({ action, match })).open();
+                });
+
+                if (action === 'cancel') {
+                    this.resetSubmitButton();
+                    return;
+                }
+                if (action === 'open') {
+                    await this.app.workspace.getLeaf(false).openFile(match.file);
+                    this.close();
+                    return;
+                }
+                if (action === 'create') {
+                    const citekey = this.noteCreationService.getUniqueCitekey(citation.id, citation, this.targetFolder);
+                    if (!citekey) {
+                        throw new Error(`No free citekey suffix for ${citation.id}.`);
+                    }
+                    citation.id = citekey;
+                }
+
+                result = action === 'update'
+                    ? await this.noteCreationService.updateLiteratureNote(match.file, input)
+                    : await this.noteCreationService.createLiteratureNote(input);
+            } else {
+                // Use the new service layer to create the note
+                result = await this.noteCreationService.createLiteratureNote(input);
+            }
             
             if (result.success) {
+                if (this.onNoteCreated && result.path) this.onNoteCreated(result.path);
                 this.close(); // Close modal on success
             } else {
                 throw result.error || new Error('Unknown error creating note');
             }
         } catch (error) {
             console.error('Error creating literature note:', error);
-            
-            // Re-enable the submit button if it exists
-            const submitButton = this.contentEl.querySelector('.create-button') as HTMLButtonElement | null;
-            if (submitButton) {
-                submitButton.disabled = false;
-                submitButton.textContent = 'Create note';
-            }
+            this.resetSubmitButton();
+        }
+    }
+
+    /**
+     * Re-enable the submit button if it exists
+     */
+    private resetSubmitButton(): void {
+        const submitButton = this.contentEl.querySelector('.create-button') as HTMLButtonElement | null;
+        if (submitButton) {
+            submitButton.disabled = false;
+            submitButton.textContent = 'Create note';
         }
     }
 
@@ -14,6 +14,7 @@ import {
     ReferenceParserService,
     CitationService
 } from '../../services';
+import { LookupCache } from '../../services/lookup-cache';
 
 // Define type for book entries used in this modal
 type BookEntry = { id: string; title: string; path: string; frontmatter: any };
@@ -57,11 +58,11 @@ export class ChapterModal extends Modal {
 
     private initialBookPath?: string;
 
-    constructor(app: App, private settings: BibliographyPluginSettings, initialBookPath?: string) {
+    constructor(app: App, private settings: BibliographyPluginSettings, initialBookPath?: string, lookupCache?: LookupCache) {
         super(app);
         
         // Initialize citation service for citekey generation
-        this.citationService = new CitationService(this.settings.citekeyOptions);
+        this.citationService = new CitationService(this.settings.citekeyOptions, this.settings, lookupCache);
         
         // Set up new service layer
         const templateVariableBuilder = new TemplateVariableBuilderService();
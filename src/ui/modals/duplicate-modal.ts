@@ -0,0 +1,138 @@
+import { App, Modal, Setting } from 'obsidian';
+import { Citation, Contributor } from '../../types/citation';
+import { DuplicateMatch } from '../../services';
+
+/**
+ * What to do with a reference that already has a literature note
+ */
+export type DuplicateAction = 'open' | 'update' | 'create' | 'cancel';
+
+/**
+ * Fields shown side by side for the new reference and each existing note
+ */
+const COMPARED_FIELDS: { label: string, get: (data: Record<string, any>) => string }[] = [
+    { label: 'Citekey', get: data => text(data.id) },
+    { label: 'Title', get: data => text(data.title) },
+    { label: 'Authors', get: data => formatAuthors(data.author) },
+    { label: 'Year', get: data => text(data.year) || text(data.issued?.['date-parts']?.[0]?.[0]) },
+    { label: 'Type', get: data => text(data.type) },
+    { label: 'Container', get: data => text(data['container-title']) },
+    { label: 'DOI', get: data => text(data.DOI) },
+    { label: 'ISBN', get: data => text(data.ISBN) },
+    { label: 'URL', get: data => text(data.URL) }
+];
+
+function text(value: any): string {
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+function formatAuthors(authors: any): string {
+    if (!Array.isArray(authors)) return '';
+    return authors
+        .map(author => author?.literal || [author?.given, author?.family].filter(Boolean).join(' '))
+        .filter(Boolean)
+        .join('; ');
+}
+
+/**
+ * Modal shown when a new reference looks like one that already has a literature
+ * note. Compares the two and lets the user open or update the existing note, or
+ * create a new note with a different citekey.
+ */
+export class DuplicateModal extends Modal {
+    private incoming: Record<string, any>;
+    private matches: DuplicateMatch[];
+    private onChoose: (action: DuplicateAction, match: DuplicateMatch) => void;
+    private chosen = false;
+
+    constructor(
+        app: App,
+        citation: Citation,
+        contributors: Contributor[],
+        matches: DuplicateMatch[],
+        onChoose: (action: DuplicateAction, match: DuplicateMatch) => void
+    ) {
+        super(app);
+        // The modal keeps authors in its contributor list rather than on the citation
+        this.incoming = {
+            ...citation,
+            author: contributors
+                .filter(contributor => contributor.role === 'author')
+                .map(({ family, given, literal }) => ({ family, given, literal }))
+        };
+        this.matches = matches;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('biblib-duplicate-modal');
+
+        contentEl.createEl('h2', { text: 'Possible duplicate' });
+        contentEl.createEl('p', {
+            text: this.matches.length === 1
+                ? 'A literature note for this reference may already exist.'
+                : `${this.matches.length} literature notes for this reference may already exist.`
+        });
+
+        for (const match of this.matches) {
+            const matchEl = contentEl.createDiv({ cls: 'biblib-duplicate-match' });
+            matchEl.createDiv({ cls: 'biblib-duplicate-path', text: match.file.path });
+            matchEl.createDiv({ cls: 'biblib-duplicate-reasons', text: `Same ${match.reasons.join(', ')}` });
+
+            this.renderComparison(matchEl, match);
+
+            new Setting(matchEl)
+                .addButton(button => button
+                    .setButtonText('Open existing')
+                    .onClick(() => this.choose('open', match)))
+                .addButton(button => button
+                    .setButtonText('Update existing with new fields')
+                    .setCta()
+                    .onClick(() => this.choose('update', match)));
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Create anyway with a new citekey')
+                .onClick(() => this.choose('create', this.matches[0])))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    private renderComparison(containerEl: HTMLElement, match: DuplicateMatch): void {
+        const table = containerEl.createEl('table', { cls: 'biblib-duplicate-comparison' });
+        const header = table.createEl('tr');
+        header.createEl('th');
+        header.createEl('th', { text: 'New' });
+        header.createEl('th', { text: 'Existing' });
+
+        for (const field of COMPARED_FIELDS) {
+            const newValue = field.get(this.incoming);
+            const existingValue = field.get(match.frontmatter);
+            if (!newValue && !existingValue) continue;
+
+            const row = table.createEl('tr');
+            if (newValue !== existingValue) row.addClass('biblib-duplicate-differs');
+            row.createEl('th', { text: field.label });
+            row.createEl('td', { text: newValue || '—' });
+            row.createEl('td', { text: existingValue || '—' });
+        }
+    }
+
+    private choose(action: DuplicateAction, match: DuplicateMatch): void {
+        this.chosen = true;
+        this.close();
+        this.onChoose(action, match);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing the modal without a choice cancels
+        if (!this.chosen) {
+            this.chosen = true;
+            this.onChoose('cancel', this.matches[0]);
+        }
+    }
+}
@@ -0,0 +1,70 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { LookupCache } from '../../services/lookup-cache';
+import { BibliographyPluginSettings } from '../../types/settings';
+
+/**
+ * Lists the cached identifier lookups, and lets the user remove single
+ * results or clear the whole cache
+ */
+export class LookupCacheModal extends Modal {
+    constructor(
+        app: App,
+        private settings: BibliographyPluginSettings,
+        private cache: LookupCache
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        this.contentEl.addClass('biblib-lookup-cache-modal');
+        this.render();
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const entries = this.cache.getEntries();
+        contentEl.createEl('h2', { text: 'Lookup cache' });
+        contentEl.createEl('p', {
+            text: entries.length === 0
+                ? 'No lookups are cached.'
+                : `${entries.length} cached ${entries.length === 1 ? 'lookup' : 'lookups'}. Results older than ${this.settings.lookupCacheTtlDays} days are looked up again, but still used when the metadata providers cannot be reached.`
+        });
+        if (!this.settings.lookupCacheEnabled) {
+            contentEl.createEl('p', { text: 'The lookup cache is turned off in the settings.', cls: 'mod-warning' });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Clear cache')
+                .setWarning()
+                .setDisabled(entries.length === 0)
+                .onClick(async () => {
+                    await this.cache.clear();
+                    new Notice('Lookup cache cleared');
+                    this.render();
+                }));
+
+        const listEl = contentEl.createDiv({ cls: 'biblib-lookup-cache-list' });
+        for (const entry of entries) {
+            const expired = LookupCache.isExpired(entry, this.settings.lookupCacheTtlDays);
+            const fetched = new Date(entry.fetchedAt).toLocaleString();
+
+            new Setting(listEl)
+                .setName(entry.csl?.title || entry.key)
+                .setDesc(`${entry.key} · ${entry.provider} · ${fetched}${expired ? ' · expired' : ''}`)
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove from cache')
+                    .onClick(async () => {
+                        await this.cache.remove(entry.key);
+                        this.render();
+                    }));
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -2,7 +2,8 @@ import { App, Platform, PluginSettingTab, Setting, TextAreaComponent, TextCompon
 import BibliographyPlugin from '../../main';
 import { CSL_ALL_CSL_FIELDS, CSL_DATE_FIELDS, CSL_NUMBER_FIELDS } from '../utils/csl-variables';
 import { TemplatePlaygroundComponent } from './components/template-playground';
-import { FavoriteLanguage, ModalFieldConfig, StandardFrontmatterField, CustomFrontmatterField } from '../types/settings';
+import { FavoriteLanguage, ModalFieldConfig, StandardFrontmatterField, CustomFrontmatterField, MetadataProviderId } from '../types/settings';
+import { API_ENDPOINTS, DEFAULT_ZOTERO_PORT, ERROR_MESSAGES } from '../constants';
 
 export class BibliographySettingTab extends PluginSettingTab {
 	plugin: BibliographyPlugin;
@@ -211,6 +212,7 @@ export class BibliographySettingTab extends PluginSettingTab {
 		switch (this.activeTab) {
 			case 'general':
 				this.renderGeneralSettings(containerEl);
+				this.renderMetadataLookupSection(containerEl);
 				break;
 			case 'files':
 				this.renderFilePathSettings(containerEl);
@@ -269,6 +271,137 @@ export class BibliographySettingTab extends PluginSettingTab {
 					this.plugin.settings.openNoteOnCreate = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Check for duplicates')
+			.setDesc('Before creating a literature note, look for an existing note with the same DOI, ISBN, URL, arXiv ID, or title, year and first author, and ask what to do')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.checkForDuplicates)
+				.onChange(async (value) => {
+					this.plugin.settings.checkForDuplicates = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Renders the metadata provider chain used by identifier lookups
+	 */
+	private renderMetadataLookupSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName('Metadata lookup').setHeading();
+
+		containerEl.createEl('p', {
+			text: 'Identifier lookups ask these sources in order and use the first one that knows the identifier. Sources that do not handle the identifier\'s kind are skipped.',
+			cls: 'setting-item-description'
+		});
+
+		const providerInfo: Record<MetadataProviderId, { name: string, desc: string }> = {
+			'translation-server': { name: 'Self-hosted translation server', desc: 'The server configured below. DOI, ISBN, PubMed ID, arXiv ID, Handle and URL; a Citoid server also PMCID and Wikidata QID.' },
+			'arxiv': { name: 'arXiv', desc: 'arXiv IDs, with the exact version, primary category, comments and the DOI of the published version.' },
+			'citoid': { name: 'Wikipedia Citoid', desc: 'Public Wikipedia API. DOI, ISBN, PubMed ID, PMCID, arXiv ID, Wikidata QID, Handle and URL.' },
+			'crossref': { name: 'CrossRef', desc: 'DOIs of journal articles, books and conference papers, and journals by ISSN.' },
+			'datacite': { name: 'DataCite', desc: 'DOIs of datasets, software and repository deposits.' },
+			'pubmed': { name: 'PubMed', desc: 'PubMed IDs and PubMed Central IDs.' },
+			'openlibrary': { name: 'Open Library', desc: 'ISBNs.' }
+		};
+
+		const providers = this.plugin.settings.metadataProviders;
+		providers.forEach((provider, index) => {
+			new Setting(containerEl)
+				.setName(providerInfo[provider.id].name)
+				.setDesc(providerInfo[provider.id].desc)
+				.addToggle(toggle => toggle
+					.setValue(provider.enabled)
+					.onChange(async (value) => {
+						provider.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addButton(button => button
+					.setIcon('up-chevron-glyph')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index > 0) {
+							[providers[index - 1], providers[index]] = [providers[index], providers[index - 1]];
+							await this.plugin.saveSettings();
+							this.display();
+						}
+					}))
+				.addButton(button => button
+					.setIcon('down-chevron-glyph')
+					.setTooltip('Move down')
+					.setDisabled(index === providers.length - 1)
+					.onClick(async () => {
+						if (index < providers.length - 1) {
+							[providers[index], providers[index + 1]] = [providers[index + 1], providers[index]];
+							await this.plugin.saveSettings();
+							this.display();
+						}
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName('CrossRef contact email')
+			.setDesc('Sent with CrossRef lookups so they are served from CrossRef\'s faster "polite" pool. CrossRef only uses it to get in touch about problems with your requests.')
+			.addText(text => text
+				.setPlaceholder('you@example.org')
+				.setValue(this.plugin.settings.crossrefMailto)
+				.onChange(async (value) => {
+					this.plugin.settings.crossrefMailto = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Translation server URL')
+			.setDesc('Base URL of your own Zotero translation-server or Citoid service, e.g. http://localhost:1969. Enable the self-hosted source above to use it, and turn off Wikipedia Citoid to keep lookups off the public API.')
+			.addText(text => text
+				.setPlaceholder('http://localhost:1969')
+				.setValue(this.plugin.settings.translationServerUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.translationServerUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Translation server type')
+			.setDesc('The API the server speaks')
+			.addDropdown(dropdown => dropdown
+				.addOption('zotero', 'Zotero translation-server')
+				.addOption('citoid', 'Citoid')
+				.setValue(this.plugin.settings.translationServerType)
+				.onChange(async (value: 'zotero' | 'citoid') => {
+					this.plugin.settings.translationServerType = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Cache lookups')
+			.setDesc('Keep lookup results in the plugin folder and reuse them instead of asking the providers again. Cached results also work without a network connection. Use the "Inspect or clear lookup cache" command to see or clear them.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.lookupCacheEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.lookupCacheEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Cache lifetime')
+			.setDesc('Days before a cached result is looked up again. Older results are still used when no provider can be reached.')
+			.addText(text => {
+				text
+					.setPlaceholder('30')
+					.setValue(String(this.plugin.settings.lookupCacheTtlDays));
+				text.inputEl.type = 'number';
+				text.inputEl.addEventListener('change', async () => {
+					const days = Number(text.getValue().trim());
+					if (!Number.isInteger(days) || days < 0) {
+						new Notice('Enter a whole number of days');
+						text.setValue(String(this.plugin.settings.lookupCacheTtlDays));
+						return;
+					}
+					this.plugin.settings.lookupCacheTtlDays = days;
+					await this.plugin.saveSettings();
+				});
+			});
 	}
 
 	/**
@@ -1083,9 +1216,196 @@ export class BibliographySettingTab extends PluginSettingTab {
 			cls: 'setting-item-description'
 		});
 
+		new Setting(containerEl)
+			.setName('Enable Zotero Connector')
+			.setDesc('Run a local server that the Zotero browser connector can save items to. Zotero desktop must not be using the same port.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableZoteroConnector)
+				.onChange(async (value) => {
+					this.plugin.settings.enableZoteroConnector = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Connector port')
+			.setDesc(`Port the connector server listens on. The browser connector looks for Zotero on ${DEFAULT_ZOTERO_PORT}; use another port to let Zotero desktop answer it instead.`)
+			.addText(text => {
+				text
+					.setPlaceholder(String(DEFAULT_ZOTERO_PORT))
+					.setValue(String(this.plugin.settings.zoteroConnectorPort));
+				text.inputEl.type = 'number';
+				// Apply on commit rather than per keystroke, since every change restarts the server
+				text.inputEl.addEventListener('change', async () => {
+					const port = Number(text.getValue().trim());
+					if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+						new Notice(ERROR_MESSAGES.ZOTERO_PORT_INVALID);
+						text.setValue(String(this.plugin.settings.zoteroConnectorPort));
+						return;
+					}
+					this.plugin.settings.zoteroConnectorPort = port;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Bind address')
+			.setDesc('Loopback address the connector server listens on. The server is never reachable from other machines.')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					'127.0.0.1': '127.0.0.1 (IPv4)',
+					'::1': '::1 (IPv6)'
+				})
+				.setValue(this.plugin.settings.zoteroConnectorHost)
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorHost = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Also save to Zotero')
+			.setDesc('Proxy mode: forward each capture to Zotero desktop running on another port, so the item is saved in Zotero as well as in Obsidian.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.zoteroConnectorProxyEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorProxyEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.zoteroConnectorProxyEnabled) {
+			new Setting(containerEl)
+				.setName('Zotero port')
+				.setDesc('Port Zotero desktop listens on. Change it in Zotero\'s Config Editor (extensions.zotero.httpServer.port) so it differs from the connector port.')
+				.addText(text => {
+					text
+						.setPlaceholder('23120')
+						.setValue(String(this.plugin.settings.zoteroConnectorProxyPort));
+					text.inputEl.type = 'number';
+					text.inputEl.addEventListener('change', async () => {
+						const port = Number(text.getValue().trim());
+						if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+							new Notice(ERROR_MESSAGES.ZOTERO_PORT_INVALID);
+							text.setValue(String(this.plugin.settings.zoteroConnectorProxyPort));
+							return;
+						}
+						if (port === this.plugin.settings.zoteroConnectorPort) {
+							new Notice(ERROR_MESSAGES.ZOTERO_PROXY_PORT_CONFLICT);
+							text.setValue(String(this.plugin.settings.zoteroConnectorProxyPort));
+							return;
+						}
+						this.plugin.settings.zoteroConnectorProxyPort = port;
+						await this.plugin.saveSettings();
+					});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName('Save captures')
+			.setDesc('Review each item from the browser in the literature note modal, save it straight to the vault without a modal, or collect it in the connector inbox to review later.')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					'modal': 'Review in modal',
+					'vault': 'Save straight to vault',
+					'inbox': 'Add to inbox'
+				})
+				.setValue(this.plugin.settings.zoteroConnectorSaveMode)
+				.onChange(async (value: 'modal' | 'vault' | 'inbox') => {
+					this.plugin.settings.zoteroConnectorSaveMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Existing citekeys')
+			.setDesc('When saving straight to the vault, what to do if a note for the citekey already exists. Other notes for the same reference are skipped, updated with the new fields instead of overwritten, or kept next to a new note with a suffixed citekey.')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					'skip': 'Skip the capture',
+					'overwrite': 'Overwrite the note',
+					'suffix': 'Add a suffix (a, b, c...)'
+				})
+				.setValue(this.plugin.settings.zoteroConnectorConflictResolution)
+				.onChange(async (value: 'skip' | 'overwrite' | 'suffix') => {
+					this.plugin.settings.zoteroConnectorConflictResolution = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Web page snapshots')
+			.setDesc('Convert the main article of a saved web page snapshot to Markdown so it can be read and searched in the vault. The HTML file is still attached.')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					'off': 'Keep as HTML only',
+					'sidecar': 'Create a linked snapshot note',
+					'append': 'Append to the literature note'
+				})
+				.setValue(this.plugin.settings.zoteroConnectorSnapshotMarkdown)
+				.onChange(async (value: 'off' | 'sidecar' | 'append') => {
+					this.plugin.settings.zoteroConnectorSnapshotMarkdown = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Import Zotero notes')
+			.setDesc('Add the child notes of a captured item to the note body, converted to Markdown.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.zoteroConnectorImportNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorImportNotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Import Zotero tags')
+			.setDesc('Add the tags of a captured item to the note\'s tags.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.zoteroConnectorImportTags)
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorImportTags = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.zoteroConnectorImportTags) {
+			new Setting(containerEl)
+				.setName('Tag prefix')
+				.setDesc('Text put in front of every imported tag, e.g. zotero/ to nest them under one tag.')
+				.addText(text => text
+					.setPlaceholder('zotero/')
+					.setValue(this.plugin.settings.zoteroConnectorTagPrefix)
+					.onChange(async (value) => {
+						this.plugin.settings.zoteroConnectorTagPrefix = value.trim();
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Tag format')
+				.setDesc('Spaces always become hyphens and characters Obsidian does not allow in tags are removed.')
+				.addDropdown(dropdown => dropdown
+					.addOptions({
+						'none': 'Keep as in Zotero',
+						'lowercase': 'Lowercase',
+						'kebab-case': 'kebab-case'
+					})
+					.setValue(this.plugin.settings.zoteroConnectorTagNormalization)
+					.onChange(async (value: 'none' | 'lowercase' | 'kebab-case') => {
+						this.plugin.settings.zoteroConnectorTagNormalization = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Include automatic tags')
+				.setDesc('Also import tags Zotero added automatically, such as subject headings from library catalogues.')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.zoteroConnectorIncludeAutomaticTags)
+					.onChange(async (value) => {
+						this.plugin.settings.zoteroConnectorIncludeAutomaticTags = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		new Setting(containerEl)
 			.setName('Temporary PDF folder')
-			.setDesc('Optional: Specify a custom folder for temporarily storing PDFs. Leave empty to use the system temp directory.')
+			.setDesc('Optional: Specify a custom folder for temporarily storing PDFs. Leave empty to use the system temp directory. Downloads go in a "biblib-connector" subfolder, and only that subfolder is ever cleaned.')
 			.addText(text => text
 				.setPlaceholder('System temp directory')
 				.setValue(this.plugin.settings.tempPdfPath || '')
@@ -1094,6 +1414,174 @@ export class BibliographySettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				})
 			);
+
+		new Setting(containerEl)
+			.setName('Keep temporary files for')
+			.setDesc('Days to keep downloads that were never imported. Older ones are deleted when Obsidian starts; files waiting in the inbox are kept. Set to 0 to never delete them automatically.')
+			.addText(text => {
+				text
+					.setPlaceholder('7')
+					.setValue(String(this.plugin.settings.zoteroConnectorTempRetentionDays));
+				text.inputEl.type = 'number';
+				text.inputEl.addEventListener('change', async () => {
+					const days = Number(text.getValue().trim());
+					if (!Number.isInteger(days) || days < 0) {
+						new Notice('Enter a whole number of days, or 0 to keep temporary files');
+						text.setValue(String(this.plugin.settings.zoteroConnectorTempRetentionDays));
+						return;
+					}
+					this.plugin.settings.zoteroConnectorTempRetentionDays = days;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Maximum attachment size')
+			.setDesc('Largest attachment, in MB, accepted from the browser. Larger downloads are stopped and reported as failed.')
+			.addText(text => {
+				text
+					.setPlaceholder('50')
+					.setValue(String(this.plugin.settings.zoteroConnectorMaxAttachmentSize));
+				text.inputEl.type = 'number';
+				text.inputEl.addEventListener('change', async () => {
+					const size = Number(text.getValue().trim());
+					if (!Number.isFinite(size) || size <= 0) {
+						new Notice('Maximum attachment size must be a positive number of MB');
+						text.setValue(String(this.plugin.settings.zoteroConnectorMaxAttachmentSize));
+						return;
+					}
+					this.plugin.settings.zoteroConnectorMaxAttachmentSize = size;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Allowed attachment types')
+			.setDesc('MIME types accepted from the browser, one per line. Use a wildcard such as image/* to allow a whole family. Leave empty to use the defaults (PDF, EPUB and HTML).')
+			.addTextArea(text => text
+				.setPlaceholder('application/pdf\napplication/epub+zip\ntext/html')
+				.setValue((this.plugin.settings.zoteroConnectorAllowedMimeTypes || []).join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorAllowedMimeTypes = value
+						.split('\n')
+						.map(type => type.trim().toLowerCase())
+						.filter(type => type);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Find open-access PDFs')
+			.setDesc('When a captured item has a DOI but the page offered no PDF, let the connector look up an open-access copy and save it with the item.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.zoteroConnectorResolveAttachments)
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorResolveAttachments = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.zoteroConnectorResolveAttachments) {
+			new Setting(containerEl)
+				.setName('Resolver endpoint')
+				.setDesc('Unpaywall-style API the DOI is looked up on. The DOI is added to the end of the address.')
+				.addText(text => text
+					.setPlaceholder(API_ENDPOINTS.UNPAYWALL_BASE)
+					.setValue(this.plugin.settings.zoteroConnectorResolverUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.zoteroConnectorResolverUrl = value.trim();
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Resolver email')
+				.setDesc('Contact address sent with each lookup. Unpaywall requires one.')
+				.addText(text => text
+					.setPlaceholder('you@example.org')
+					.setValue(this.plugin.settings.zoteroConnectorResolverEmail)
+					.onChange(async (value) => {
+						this.plugin.settings.zoteroConnectorResolverEmail = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl).setName('Access control').setHeading();
+
+		new Setting(containerEl)
+			.setName('Allowed origins')
+			.setDesc('The Zotero browser extension is always allowed and web pages are always refused. List extra origins (one per line, e.g. http://localhost:3000) that may call the server.')
+			.addTextArea(text => text
+				.setPlaceholder('http://localhost:3000')
+				.setValue((this.plugin.settings.zoteroConnectorAllowedOrigins || []).join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorAllowedOrigins = value
+						.split('\n')
+						.map(origin => origin.trim())
+						.filter(origin => origin);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Require access token')
+			.setDesc('Refuse requests that do not send the access token in the X-BibLib-Token header. The REST API requires it even when this is off. The Zotero Connector cannot send it, so connector routes accept any browser extension without it; other programs can pretend to be an extension, so there the token is advisory only.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.zoteroConnectorRequireToken)
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorRequireToken = value;
+					if (value && !this.plugin.settings.zoteroConnectorToken) {
+						this.plugin.settings.zoteroConnectorToken = this.generateAccessToken();
+					}
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.zoteroConnectorRequireToken || this.plugin.settings.zoteroConnectorApiEnabled) {
+			new Setting(containerEl)
+				.setName('Access token')
+				.setDesc('Shared secret for other clients and the REST API. Generate a new one to revoke the old token.')
+				.addText(text => text
+					.setValue(this.plugin.settings.zoteroConnectorToken)
+					.setDisabled(true))
+				.addExtraButton(button => button
+					.setIcon('copy')
+					.setTooltip('Copy token')
+					.onClick(async () => {
+						await navigator.clipboard.writeText(this.plugin.settings.zoteroConnectorToken);
+						new Notice('Access token copied');
+					}))
+				.addExtraButton(button => button
+					.setIcon('refresh-cw')
+					.setTooltip('Generate new token')
+					.onClick(async () => {
+						this.plugin.settings.zoteroConnectorToken = this.generateAccessToken();
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+
+		new Setting(containerEl).setName('Local REST API').setHeading();
+
+		new Setting(containerEl)
+			.setName('Enable REST API')
+			.setDesc('Serve /biblib/ routes for scripts and other tools: create notes from CSL-JSON or BibTeX, fetch an item by citekey, search the library and download it as BibTeX. Requests must send the access token, and the other access controls above apply.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.zoteroConnectorApiEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.zoteroConnectorApiEnabled = value;
+					if (value && !this.plugin.settings.zoteroConnectorToken) {
+						this.plugin.settings.zoteroConnectorToken = this.generateAccessToken();
+					}
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Generate a random access token for the connector server
+	 */
+	private generateAccessToken(): string {
+		const bytes = new Uint8Array(24);
+		window.crypto.getRandomValues(bytes);
+		return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
 	}
 
 	/**
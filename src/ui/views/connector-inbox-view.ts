@@ -0,0 +1,159 @@
+import { ItemView, WorkspaceLeaf, setIcon } from 'obsidian';
+import { ConnectorInboxService } from '../../services/connector-inbox-service';
+import { ConnectorInboxEntry } from '../../types/connector';
+
+export const VIEW_TYPE_CONNECTOR_INBOX = 'biblib-connector-inbox';
+
+/**
+ * Actions the inbox view can take on an entry
+ */
+export interface ConnectorInboxActions {
+    createNote(entry: ConnectorInboxEntry): Promise<void>;
+    editThenCreate(entry: ConnectorInboxEntry): void;
+    mergeIntoNote(entry: ConnectorInboxEntry): void;
+    discard(entry: ConnectorInboxEntry): Promise<void>;
+}
+
+/**
+ * Sidebar view listing items captured by the Zotero Connector that are waiting for review
+ */
+export class ConnectorInboxView extends ItemView {
+    private inbox: ConnectorInboxService;
+    private actions: ConnectorInboxActions;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, inbox: ConnectorInboxService, actions: ConnectorInboxActions) {
+        super(leaf);
+        this.inbox = inbox;
+        this.actions = actions;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_CONNECTOR_INBOX;
+    }
+
+    getDisplayText(): string {
+        return 'Connector inbox';
+    }
+
+    getIcon(): string {
+        return 'inbox';
+    }
+
+    async onOpen(): Promise<void> {
+        this.unsubscribe = this.inbox.onChange(() => this.render());
+        this.render();
+    }
+
+    async onClose(): Promise<void> {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+    }
+
+    private render(): void {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('biblib-connector-inbox');
+
+        const entries = this.inbox.getEntries();
+        container.createEl('h4', { text: `Connector inbox (${entries.length})` });
+
+        if (entries.length === 0) {
+            container.createEl('p', {
+                text: 'No captured items waiting. Items saved from the browser appear here when "Save captures" is set to "Add to inbox".',
+                cls: 'biblib-connector-inbox-empty'
+            });
+            return;
+        }
+
+        const list = container.createDiv({ cls: 'biblib-connector-inbox-list' });
+        for (const entry of entries) {
+            this.renderEntry(list, entry);
+        }
+    }
+
+    private renderEntry(list: HTMLElement, entry: ConnectorInboxEntry): void {
+        const item = entry.item || {};
+        const row = list.createDiv({ cls: 'biblib-connector-inbox-item' });
+
+        row.createDiv({ text: item.title || 'Untitled', cls: 'biblib-connector-inbox-title' });
+
+        const authors = this.formatCreators(item.creators);
+        if (authors) {
+            row.createDiv({ text: authors, cls: 'biblib-connector-inbox-authors' });
+        }
+
+        const meta = row.createDiv({ cls: 'biblib-connector-inbox-meta' });
+        meta.createSpan({ text: item.itemType || 'document', cls: 'biblib-connector-inbox-type' });
+        meta.createSpan({ text: this.formatAttachmentState(entry), cls: 'biblib-connector-inbox-attachments' });
+
+        if (entry.uri) {
+            const source = row.createDiv({ cls: 'biblib-connector-inbox-source' });
+            source.createEl('a', { text: entry.uri, href: entry.uri });
+        }
+
+        const failed = entry.attachments.filter(attachment => attachment.progress === -1 && attachment.error);
+        for (const attachment of failed) {
+            row.createDiv({
+                text: `${attachment.title || 'Attachment'}: ${attachment.error}`,
+                cls: 'biblib-connector-inbox-error'
+            });
+        }
+
+        const buttons = row.createDiv({ cls: 'biblib-connector-inbox-actions' });
+        this.createAction(buttons, 'file-plus', 'Create note', async (button) => {
+            button.disabled = true;
+            await this.actions.createNote(entry);
+            button.disabled = false;
+        });
+        this.createAction(buttons, 'pencil', 'Edit then create', () => this.actions.editThenCreate(entry));
+        this.createAction(buttons, 'git-merge', 'Merge into existing note', () => this.actions.mergeIntoNote(entry));
+        this.createAction(buttons, 'trash', 'Discard', () => this.actions.discard(entry));
+    }
+
+    private createAction(
+        container: HTMLElement,
+        icon: string,
+        label: string,
+        onClick: (button: HTMLButtonElement) => void | Promise<void>
+    ): void {
+        const button = container.createEl('button', { attr: { 'aria-label': label } });
+        setIcon(button, icon);
+        button.createSpan({ text: label });
+        button.onclick = () => onClick(button);
+    }
+
+    /**
+     * Format Zotero creators as "Last, Last, Last" (first three, then "et al.")
+     */
+    private formatCreators(creators: any[] | undefined): string {
+        if (!Array.isArray(creators) || creators.length === 0) return '';
+
+        const names = creators
+            .map(creator => creator.lastName || creator.name || creator.firstName || '')
+            .filter(name => name);
+        if (names.length > 3) {
+            return `${names.slice(0, 3).join(', ')} et al.`;
+        }
+        return names.join(', ');
+    }
+
+    /**
+     * Summarise the download state of the entry's attachments
+     */
+    private formatAttachmentState(entry: ConnectorInboxEntry): string {
+        const attachments = entry.attachments || [];
+        if (attachments.length === 0) return 'No attachments';
+
+        const saved = attachments.filter(attachment => attachment.progress === 100).length;
+        const failed = attachments.filter(attachment => attachment.progress === -1).length;
+        const pending = attachments.length - saved - failed;
+
+        const parts = [`${saved} of ${attachments.length} attachment(s) saved`];
+        if (pending > 0) parts.push(`${pending} downloading`);
+        if (failed > 0) parts.push(`${failed} failed`);
+        return parts.join(', ');
+    }
+}
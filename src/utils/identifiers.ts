@@ -0,0 +1,289 @@
+/**
+ * Detection, normalization and validation of bibliographic identifiers
+ */
+
+/**
+ * Kinds of identifier the lookup understands
+ */
+export type IdentifierKind = 'doi' | 'isbn' | 'issn' | 'pmid' | 'pmcid' | 'arxiv' | 'qid' | 'handle' | 'url';
+
+/**
+ * An identifier in the form providers expect, e.g. a DOI without its doi.org prefix
+ */
+export interface ParsedIdentifier {
+    kind: IdentifierKind;
+    value: string;
+}
+
+/**
+ * What the input looks like. When it has the shape of a kind but fails that
+ * kind's checks (e.g. an ISBN with a wrong check digit), error says why.
+ */
+export interface DetectedIdentifier extends ParsedIdentifier {
+    error?: string;
+}
+
+/**
+ * Names of identifier kinds, for messages
+ */
+export const IDENTIFIER_KIND_LABELS: Record<IdentifierKind, string> = {
+    doi: 'DOI',
+    isbn: 'ISBN',
+    issn: 'ISSN',
+    pmid: 'PubMed ID',
+    pmcid: 'PubMed Central ID',
+    arxiv: 'arXiv ID',
+    qid: 'Wikidata QID',
+    handle: 'Handle',
+    url: 'URL'
+};
+
+const DOI_PATTERN = /^10\.\d{4,9}\/\S+$/;
+const ARXIV_NEW_PATTERN = /^(\d{2})(\d{2})\.(\d{4,5})(v\d+)?$/; // YYMM.NNNNN since April 2007
+const ARXIV_OLD_PATTERN = /^([a-z-]+(?:\.[A-Z]{2})?)\/(\d{2})(\d{2})(\d{3})(v\d+)?$/i; // archive.SC/YYMMNNN before
+
+/**
+ * Work out what kind of identifier the input is and normalize it: prefixes such as
+ * doi:, https://doi.org/ or arXiv: are stripped, ISBN-10s become ISBN-13s, and
+ * DOIs are pulled out of publisher URLs.
+ * @returns The identifier, possibly with an error when it fails validation, or null when the input is not an identifier the lookup understands
+ */
+export function detectIdentifier(input: string): DetectedIdentifier | null {
+    const text = input.trim();
+    if (!text) return null;
+
+    if (/^https?:\/\//i.test(text)) return detectUrl(text);
+
+    // Explicit prefixes say what the rest must be
+    const prefixed = /^(doi|isbn(?:-1[03])?|issn|arxiv|pmid|pmcid|hdl|wd)(?:\s*:\s*|\s+)(.*)$/i.exec(text);
+    if (prefixed) {
+        const prefix = prefixed[1].toLowerCase();
+        const rest = prefixed[2].trim();
+        switch (prefix) {
+            case 'doi': return checkDoi(rest);
+            case 'issn': return checkIssn(rest);
+            case 'arxiv': return checkArxiv(rest);
+            case 'pmid':
+                return /^\d{1,8}$/.test(rest) ? { kind: 'pmid', value: rest } : invalid('pmid', rest);
+            case 'pmcid': return checkPmcid(rest);
+            case 'hdl': return checkHandle(rest);
+            case 'wd':
+                return /^Q\d+$/i.test(rest) ? { kind: 'qid', value: rest.toUpperCase() } : invalid('qid', rest);
+            default: return checkIsbn(rest);
+        }
+    }
+
+    if (/^10\.\d+\//.test(text)) return checkDoi(text);
+    if (/^PMC\d+$/i.test(text)) return checkPmcid(text);
+    if (/^Q\d+$/i.test(text)) return { kind: 'qid', value: text.toUpperCase() };
+    if (ARXIV_NEW_PATTERN.test(text) || ARXIV_OLD_PATTERN.test(text)) return checkArxiv(text);
+    if (/^\d{1,8}$/.test(text)) return { kind: 'pmid', value: text };
+    if (/^\d{4}-\d{3}[\dX]$/i.test(text)) return checkIssn(text);
+
+    const digits = text.replace(/[\s-]/g, '');
+    if (/^(?:\d{9}[\dX]|\d{13})$/i.test(digits) && /^[\d\s-]+[\dX]$/i.test(text)) return checkIsbn(text);
+
+    // Handles without a prefix, e.g. 1721.1/12345; a dotted naming authority keeps this from catching dates like 12/2020
+    if (/^\d+\.[\d.]*\d\/\S+$/.test(text)) return checkHandle(text);
+
+    return null;
+}
+
+/**
+ * Strip a DOI of resolver prefixes and URL encoding
+ * @returns The bare DOI, e.g. 10.1038/nrn3241, or '' when the input has none
+ */
+export function normalizeDoi(value: string): string {
+    let doi = value.trim().replace(/^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)/i, '');
+    try {
+        doi = decodeURIComponent(doi);
+    } catch (e) {
+        // Not URL-encoded
+    }
+    doi = doi.replace(/[.,;]+$/, '');
+    return DOI_PATTERN.test(doi) ? doi : '';
+}
+
+/**
+ * Pull a DOI out of a publisher URL such as https://onlinelibrary.wiley.com/doi/full/10.1002/anie.201915678
+ * @returns The DOI, or '' when the URL has none
+ */
+export function extractDoiFromUrl(url: string): string {
+    let decoded = url;
+    try {
+        decoded = decodeURIComponent(url);
+    } catch (e) {
+        // Keep the URL as it is
+    }
+
+    const match = /(?:^|[\/=:])(10\.\d{4,9}\/[^\s?#&"'<>]+)/.exec(decoded);
+    if (!match) return '';
+
+    let doi = match[1]
+        .replace(/\/+$/, '')
+        .replace(/\.pdf$/i, '');
+    // Trailing path segments publishers add for the page's view of the article
+    while (/\/(?:full|abstract|pdf|epdf|pdfdirect|html|fulltext|summary|meta|references|figures|citedby|suppl)$/i.test(doi)) {
+        doi = doi.replace(/\/[^\/]+$/, '');
+    }
+    // bioRxiv and medRxiv add the version and view to the DOI, e.g. 10.1101/2020.03.01.123456v2.full
+    if (doi.startsWith('10.1101/')) doi = doi.replace(/v\d+(?:\.[a-z-]+)*$/i, '');
+
+    return normalizeDoi(doi);
+}
+
+/**
+ * Whether an ISBN-10 or ISBN-13 has a valid check digit
+ */
+export function isValidIsbn(value: string): boolean {
+    const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+    if (/^\d{9}[\dX]$/.test(isbn)) {
+        let sum = 0;
+        for (let i = 0; i < 10; i++) {
+            sum += (isbn[i] === 'X' ? 10 : Number(isbn[i])) * (10 - i);
+        }
+        return sum % 11 === 0;
+    }
+    if (/^97[89]\d{10}$/.test(isbn)) {
+        return isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+    }
+    return false;
+}
+
+/**
+ * Convert an ISBN-10 to its ISBN-13 form; ISBN-13s are returned without hyphens
+ */
+export function isbn10To13(value: string): string {
+    const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+    if (isbn.length !== 10) return isbn;
+    const digits = `978${isbn.slice(0, 9)}`;
+    return digits + isbn13CheckDigit(digits);
+}
+
+/**
+ * Whether an ISSN has a valid check digit
+ */
+export function isValidIssn(value: string): boolean {
+    const issn = value.replace(/-/g, '').toUpperCase();
+    if (!/^\d{7}[\dX]$/.test(issn)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < 7; i++) {
+        sum += Number(issn[i]) * (8 - i);
+    }
+    const check = (11 - (sum % 11)) % 11;
+    return issn[7] === (check === 10 ? 'X' : String(check));
+}
+
+function isbn13CheckDigit(first12: string): string {
+    let sum = 0;
+    for (let i = 0; i < 12; i++) {
+        sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+    }
+    return String((10 - (sum % 10)) % 10);
+}
+
+function invalid(kind: IdentifierKind, value: string, reason?: string): DetectedIdentifier {
+    return { kind, value, error: reason || `"${value}" is not a valid ${IDENTIFIER_KIND_LABELS[kind]}` };
+}
+
+function checkDoi(value: string): DetectedIdentifier {
+    const doi = normalizeDoi(value);
+    return doi ? { kind: 'doi', value: doi } : invalid('doi', value);
+}
+
+function checkIsbn(value: string): DetectedIdentifier {
+    const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+    if (!/^(?:\d{9}[\dX]|\d{13})$/.test(isbn)) return invalid('isbn', value, `"${value}" is not a valid ISBN: an ISBN has 10 or 13 digits`);
+    if (!isValidIsbn(isbn)) return invalid('isbn', value, `"${value}" is not a valid ISBN: the check digit does not match`);
+    return { kind: 'isbn', value: isbn10To13(isbn) };
+}
+
+function checkIssn(value: string): DetectedIdentifier {
+    const issn = value.replace(/-/g, '').toUpperCase();
+    if (!/^\d{7}[\dX]$/.test(issn)) return invalid('issn', value, `"${value}" is not a valid ISSN: an ISSN has 8 digits`);
+    if (!isValidIssn(issn)) return invalid('issn', value, `"${value}" is not a valid ISSN: the check digit does not match`);
+    return { kind: 'issn', value: `${issn.slice(0, 4)}-${issn.slice(4)}` };
+}
+
+function checkArxiv(value: string): DetectedIdentifier {
+    const id = value.trim().replace(/\.pdf$/i, '');
+
+    const modern = ARXIV_NEW_PATTERN.exec(id);
+    if (modern) {
+        const month = Number(modern[2]);
+        // Five-digit sequence numbers started in January 2015
+        const fiveDigits = Number(modern[1]) >= 15;
+        if (month < 1 || month > 12 || modern[3].length !== (fiveDigits ? 5 : 4)) return invalid('arxiv', value);
+        return { kind: 'arxiv', value: id };
+    }
+
+    const legacy = ARXIV_OLD_PATTERN.exec(id);
+    if (legacy) {
+        const month = Number(legacy[3]);
+        if (month < 1 || month > 12) return invalid('arxiv', value);
+        return { kind: 'arxiv', value: id };
+    }
+
+    return invalid('arxiv', value);
+}
+
+function checkPmcid(value: string): DetectedIdentifier {
+    const pmcid = /^(?:PMC)?(\d+)$/i.exec(value.trim());
+    return pmcid ? { kind: 'pmcid', value: `PMC${pmcid[1]}` } : invalid('pmcid', value);
+}
+
+function checkHandle(value: string): DetectedIdentifier {
+    const handle = value.trim();
+    return /^[^\s\/]+\/\S+$/.test(handle) ? { kind: 'handle', value: handle } : invalid('handle', value);
+}
+
+/**
+ * URLs of resolvers and databases stand for the identifier they resolve;
+ * any other URL that contains a DOI stands for the DOI
+ */
+function detectUrl(text: string): DetectedIdentifier {
+    let url: URL;
+    try {
+        url = new URL(text);
+    } catch (e) {
+        return invalid('url', text);
+    }
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const path = url.pathname;
+
+    if (host === 'doi.org' || host === 'dx.doi.org') return checkDoi(path.slice(1));
+
+    if (host === 'arxiv.org' || host === 'export.arxiv.org') {
+        const arxiv = /^\/(?:abs|pdf)\/(.+)$/.exec(path);
+        if (arxiv) return checkArxiv(arxiv[1]);
+    }
+
+    if (host === 'pubmed.ncbi.nlm.nih.gov' || host === 'ncbi.nlm.nih.gov') {
+        const pmid = /^\/(?:pubmed\/)?(\d{1,8})\/?$/.exec(path);
+        if (pmid) return { kind: 'pmid', value: pmid[1] };
+    }
+
+    if (host === 'pmc.ncbi.nlm.nih.gov' || host === 'ncbi.nlm.nih.gov' || host === 'europepmc.org') {
+        const pmcid = /\/(?:pmc\/)?articles\/(PMC\d+)\/?/i.exec(path);
+        if (pmcid) return checkPmcid(pmcid[1]);
+    }
+
+    if (host === 'wikidata.org' || host === 'm.wikidata.org') {
+        const qid = /^\/(?:wiki|entity)\/(Q\d+)$/i.exec(path);
+        if (qid) return { kind: 'qid', value: qid[1].toUpperCase() };
+    }
+
+    if (host === 'hdl.handle.net') {
+        try {
+            return checkHandle(decodeURIComponent(path.slice(1)));
+        } catch (e) {
+            return checkHandle(path.slice(1));
+        }
+    }
+
+    const doi = extractDoiFromUrl(text);
+    if (doi) return { kind: 'doi', value: doi };
+
+    return { kind: 'url', value: text };
+}
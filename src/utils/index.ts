@@ -1 +1,2 @@
-export * from './citekey-generator';
\ No newline at end of file
+export * from './citekey-generator';
+export * from './identifiers';